@@ -1,16 +1,441 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
 
 dotenv.config();
 
-export const config = {
-  serverName: 'Nexora Context',
-  serverVersion: '1.0.0',
-  port: process.env.PORT || Number(3002),
-  skEnvUrl: process.env.SK_ENV_URL || '',
-  skClientId: process.env.SK_CLIENT_ID || '',
-  skClientSecret: process.env.SK_CLIENT_SECRET || '',
-  logLevel: 'info',
-  mcpServerId: process.env.MCP_SERVER_ID || '',
-  protectedResourceMetadata: process.env.PROTECTED_RESOURCE_METADATA || '',
-  expectedAudience: process.env.EXPECTED_AUDIENCE || '',
+/**
+ * Settings come from three layers, later ones winning: the defaults in the
+ * schema below, an optional YAML file (CONFIG_FILE, or ./config.yaml when it
+ * exists) using the same keys as `config`, and environment variables. The
+ * result is validated once at startup; any missing or invalid setting stops
+ * the process with a report of all of them.
+ */
+
+const DEFAULT_CONFIG_FILE = 'config.yaml';
+
+// Config path -> environment variables that set it, first one set wins
+const ENV_OVERRIDES: Record<string, string[]> = {
+  'port': ['PORT'],
+  'logLevel': ['LOG_LEVEL'],
+  'logFormat': ['LOG_FORMAT'],
+  'logContent': ['LOG_CONTENT'],
+  'mcpServerId': ['MCP_SERVER_ID'],
+  'protectedResourceMetadata': ['PROTECTED_RESOURCE_METADATA'],
+  'supabase.url': ['SUPABASE_URL'],
+  'supabase.serviceRoleKey': ['SUPABASE_SERVICE_ROLE_KEY'],
+  'auth.provider': ['AUTH_PROVIDER'],
+  'auth.issuer': ['AUTH_ISSUER', 'SK_ENV_URL'],
+  'auth.audience': ['EXPECTED_AUDIENCE'],
+  'auth.jwksUri': ['AUTH_JWKS_URI'],
+  'auth.jwksCacheTtlMs': ['AUTH_JWKS_CACHE_TTL_MS'],
+  'auth.jwksMinRefreshIntervalMs': ['AUTH_JWKS_MIN_REFRESH_INTERVAL_MS'],
+  'auth.clockToleranceSec': ['AUTH_CLOCK_TOLERANCE_SEC'],
+  'auth.localSecret': ['AUTH_LOCAL_SECRET'],
+  'documentsTable': ['DOCUMENTS_TABLE'],
+  'erasureAuditTable': ['ERASURE_AUDIT_TABLE'],
+  'toolConcurrency': ['TOOL_CONCURRENCY'],
+  'toolTimeoutMs': ['TOOL_TIMEOUT_MS'],
+  'toolMaxRetries': ['TOOL_MAX_RETRIES'],
+  'toolRetryBaseDelayMs': ['TOOL_RETRY_BASE_DELAY_MS'],
+  'vectorSearchConcurrency': ['VECTOR_SEARCH_CONCURRENCY'],
+  'requestTimeoutMs': ['REQUEST_TIMEOUT_MS'],
+  'retrieval.topK': ['RETRIEVAL_TOP_K'],
+  'retrieval.vectorLimit': ['RETRIEVAL_VECTOR_LIMIT'],
+  'retrieval.entityVectorLimit': ['RETRIEVAL_ENTITY_VECTOR_LIMIT'],
+  'retrieval.keywordContextWords': ['RETRIEVAL_KEYWORD_CONTEXT_WORDS'],
+  'retrieval.maxFanOut': ['RETRIEVAL_MAX_FAN_OUT'],
+  'retrieval.maxNodes': ['RETRIEVAL_MAX_NODES'],
+  'retrieval.maxTopK': ['RETRIEVAL_MAX_TOP_K'],
+  'retrieval.maxHops': ['RETRIEVAL_MAX_HOPS'],
+  'llm.provider': ['LLM_PROVIDER'],
+  'llm.model': ['LLM_MODEL'],
+  'llm.openaiApiKey': ['OPENAI_API_KEY'],
+  'llm.compatibleBaseUrl': ['LLM_COMPATIBLE_BASE_URL'],
+  'llm.compatibleApiKey': ['LLM_COMPATIBLE_API_KEY'],
+  'llm.roles.plan.provider': ['LLM_PLAN_PROVIDER'],
+  'llm.roles.plan.model': ['LLM_PLAN_MODEL', 'OPENAI_MODEL_PLANNER', 'OPENAI_MODEL_REPHRASE'],
+  'llm.roles.rephrase.provider': ['LLM_REPHRASE_PROVIDER'],
+  'llm.roles.rephrase.model': ['LLM_REPHRASE_MODEL', 'OPENAI_MODEL_REPHRASE'],
+  'llm.roles.extract_entities.provider': ['LLM_EXTRACT_ENTITIES_PROVIDER'],
+  'llm.roles.extract_entities.model': ['LLM_EXTRACT_ENTITIES_MODEL', 'EXTRACT_ENTITIES_MODEL'],
+  'llm.roles.refine.provider': ['LLM_REFINE_PROVIDER'],
+  'llm.roles.refine.model': ['LLM_REFINE_MODEL', 'OPENAI_MODEL_REFINER'],
+  'llm.roles.extract_graph.provider': ['LLM_EXTRACT_GRAPH_PROVIDER'],
+  'llm.roles.extract_graph.model': ['LLM_EXTRACT_GRAPH_MODEL', 'EXTRACT_ENTITIES_MODEL'],
+  'llm.embedding.provider': ['LLM_EMBEDDING_PROVIDER'],
+  'llm.embedding.model': ['LLM_EMBEDDING_MODEL'],
+  'vectorStore.backend': ['VECTOR_STORE'],
+  'vectorStore.weaviate.host': ['WEAVIATE_HOST'],
+  'vectorStore.weaviate.apiKey': ['WEAVIATE_API_KEY'],
+  'vectorStore.weaviate.className': ['WEAVIATE_CLASS_NAME'],
+  'vectorStore.weaviate.openaiApiKey': ['OPENAI_APIKEY'],
+  'vectorStore.pgvector.table': ['PGVECTOR_TABLE'],
+  'vectorStore.pgvector.matchFunction': ['PGVECTOR_MATCH_FUNCTION'],
+  'knowledgeGraph.entitiesTable': ['KG_ENTITIES_TABLE'],
+  'knowledgeGraph.relationshipsTable': ['KG_RELATIONSHIPS_TABLE'],
+  'ingestion.chunkSize': ['INGEST_CHUNK_SIZE'],
+  'ingestion.chunkOverlap': ['INGEST_CHUNK_OVERLAP'],
+  'ingestion.maxDocumentChars': ['INGEST_MAX_DOCUMENT_CHARS'],
+  'ingestion.extractionConcurrency': ['INGEST_EXTRACTION_CONCURRENCY'],
+  'cache.enabled': ['CACHE_ENABLED'],
+  'cache.maxEntries': ['CACHE_MAX_ENTRIES'],
+  'cache.llmTtlMs': ['CACHE_LLM_TTL_MS'],
+  'cache.retrievalTtlMs': ['CACHE_RETRIEVAL_TTL_MS'],
+  'modelPrices': ['MODEL_PRICES'],
+  'tracing.enabled': ['TRACING_ENABLED'],
+  'tracing.exporter': ['TRACING_EXPORTER'],
+  'tracing.otlpEndpoint': ['OTEL_EXPORTER_OTLP_TRACES_ENDPOINT'],
+  'tracing.serviceName': ['OTEL_SERVICE_NAME'],
+  'tracing.sampleRatio': ['TRACING_SAMPLE_RATIO'],
+  'health.cacheTtlMs': ['HEALTH_CACHE_TTL_MS'],
+  'health.checkTimeoutMs': ['HEALTH_CHECK_TIMEOUT_MS'],
+  'usage.dailyResetHourUtc': ['USAGE_DAILY_RESET_HOUR_UTC'],
+  'usage.monthlyResetDay': ['USAGE_MONTHLY_RESET_DAY'],
+  'trustProxy': ['TRUST_PROXY'],
+  'rateLimit.enabled': ['RATE_LIMIT_ENABLED'],
+  'rateLimit.tierClaim': ['RATE_LIMIT_TIER_CLAIM'],
+  'rateLimit.defaultTier': ['RATE_LIMIT_DEFAULT_TIER'],
+  'rateLimit.tiers': ['RATE_LIMIT_TIERS'],
+  'rateLimit.ip.requestsPerMinute': ['RATE_LIMIT_IP_PER_MINUTE'],
+  'rateLimit.ip.burst': ['RATE_LIMIT_IP_BURST'],
+  'rateLimit.concurrencyLeaseMs': ['RATE_LIMIT_CONCURRENCY_LEASE_MS'],
+};
+
+const count = (defaultValue: number) => z.coerce.number().int().positive().default(defaultValue);
+const milliseconds = count;
+
+const booleanFlag = (defaultValue: boolean) => z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean().default(defaultValue)
+);
+
+// Objects may be given as JSON strings when they come from the environment
+const jsonObject = <T extends z.ZodTypeAny>(schema: T) => z.preprocess((value, ctx) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON' });
+    // Already failed; an empty object keeps the inner schema from reporting it again
+    return {};
+  }
+}, schema);
+
+const llmProviderSchema = z.enum(['openai', 'openai-compatible', 'stub']);
+
+const llmRoleSchema = z.object({
+  provider: llmProviderSchema.optional(),
+  model: z.string().optional(),
+}).default({});
+
+const rateLimitTierSchema = z.object({
+  // Sustained rate; the bucket refills continuously at this pace
+  requestsPerMinute: z.number().positive(),
+  // Bucket size: how many requests may arrive at once
+  burst: z.number().int().positive(),
+  // Tool calls one user may have in flight at the same time
+  maxConcurrent: z.number().int().positive(),
+});
+
+const DEFAULT_RATE_LIMIT_TIERS = {
+  free: { requestsPerMinute: 30, burst: 10, maxConcurrent: 2 },
+  pro: { requestsPerMinute: 120, burst: 30, maxConcurrent: 5 },
+  enterprise: { requestsPerMinute: 600, burst: 100, maxConcurrent: 20 },
 };
+
+const configSchema = z.object({
+  serverName: z.string().default('Nexora Context'),
+  serverVersion: z.string().default('1.0.0'),
+  port: z.coerce.number().int().min(1).max(65535).default(3002),
+  logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+  // json for log collectors, pretty for reading in a terminal
+  logFormat: z.enum(['json', 'pretty']).default('json'),
+  // Debugging only: log queries and document content instead of redacting them
+  logContent: booleanFlag(false),
+  mcpServerId: z.string().default(''),
+  // Served as-is at /.well-known/oauth-protected-resource
+  protectedResourceMetadata: jsonObject(z.record(z.any())).optional(),
+  supabase: z.object({
+    url: z.union([z.literal(''), z.string().url()]).default(''),
+    serviceRoleKey: z.string().default(''),
+  }).default({}),
+  auth: z.object({
+    // scalekit | oidc | local
+    provider: z.enum(['scalekit', 'oidc', 'local']).default('scalekit'),
+    issuer: z.string().default(''),
+    audience: z.string().default(''),
+    // Defaults to <issuer>/keys for Scalekit and OIDC discovery otherwise
+    jwksUri: z.string().default(''),
+    jwksCacheTtlMs: milliseconds(60 * 60 * 1000),
+    jwksMinRefreshIntervalMs: milliseconds(30 * 1000),
+    clockToleranceSec: z.coerce.number().int().min(0).default(30),
+    // HS256 secret for the local test issuer
+    localSecret: z.string().default(''),
+  }).default({}),
+  // Table holding the uploaded documents that keyword_search_with_context reads
+  documentsTable: z.string().min(1).default('user_data'),
+  // One row per document deletion or account erasure, kept after the data is gone
+  erasureAuditTable: z.string().min(1).default('data_erasure_audit'),
+  toolConcurrency: count(3),
+  toolTimeoutMs: milliseconds(45000),
+  toolMaxRetries: z.coerce.number().int().min(0).default(2),
+  toolRetryBaseDelayMs: milliseconds(500),
+  vectorSearchConcurrency: count(4),
+  requestTimeoutMs: milliseconds(120000),
+  retrieval: z.object({
+    // Passages kept after fusion
+    topK: count(15),
+    // Matches per query variation, and per entity in the entity follow-up search
+    vectorLimit: count(5),
+    entityVectorLimit: count(3),
+    // Words of context around each keyword match
+    keywordContextWords: count(50),
+    // Graph traversal defaults; also the most a planned tool call may ask for
+    maxFanOut: count(10),
+    maxNodes: count(50),
+    // Upper bounds for topK and hop count in planned tool calls
+    maxTopK: count(50),
+    maxHops: count(3),
+  }).default({}),
+  llm: z.object({
+    // Default for every role and the embeddings unless they set their own
+    provider: llmProviderSchema.default('openai'),
+    model: z.string().default(''),
+    openaiApiKey: z.string().default(''),
+    compatibleBaseUrl: z.string().url().default('http://localhost:11434/v1'),
+    compatibleApiKey: z.string().default(''),
+    roles: z.object({
+      plan: llmRoleSchema,
+      rephrase: llmRoleSchema,
+      extract_entities: llmRoleSchema,
+      refine: llmRoleSchema,
+      // Entity and relationship extraction when documents are added
+      extract_graph: llmRoleSchema,
+    }).default({}),
+    embedding: z.object({
+      provider: llmProviderSchema.optional(),
+      model: z.string().default('text-embedding-3-small'),
+    }).default({}),
+  }).default({}).transform(llm => ({
+    ...llm,
+    roles: Object.fromEntries(Object.entries(llm.roles).map(([role, settings]) => [role, {
+      provider: settings.provider || llm.provider,
+      model: settings.model || llm.model,
+    }])) as Record<keyof typeof llm.roles, { provider: z.infer<typeof llmProviderSchema>; model: string }>,
+    embedding: { ...llm.embedding, provider: llm.embedding.provider || llm.provider },
+  })),
+  vectorStore: z.object({
+    backend: z.enum(['weaviate', 'pgvector', 'memory']).default('weaviate'),
+    weaviate: z.object({
+      host: z.string().default(''),
+      apiKey: z.string().default(''),
+      className: z.string().default(''),
+      openaiApiKey: z.string().default(''),
+    }).default({}),
+    pgvector: z.object({
+      table: z.string().min(1).default('document_chunks'),
+      matchFunction: z.string().min(1).default('match_document_chunks'),
+    }).default({}),
+  }).default({}),
+  knowledgeGraph: z.object({
+    entitiesTable: z.string().min(1).default('knowledge_entities'),
+    relationshipsTable: z.string().min(1).default('knowledge_relationships'),
+  }).default({}),
+  ingestion: z.object({
+    // Characters per chunk and characters repeated between neighbouring chunks
+    chunkSize: count(1200),
+    chunkOverlap: z.coerce.number().int().min(0).default(200),
+    maxDocumentChars: count(200000),
+    extractionConcurrency: count(3),
+  }).default({}),
+  cache: z.object({
+    enabled: booleanFlag(true),
+    maxEntries: count(5000),
+    llmTtlMs: milliseconds(24 * 60 * 60 * 1000),
+    retrievalTtlMs: milliseconds(10 * 60 * 1000),
+  }).default({}),
+  // Model name -> { input, output } USD per 1M tokens, merged over the built-in table
+  modelPrices: jsonObject(z.record(z.object({ input: z.number().min(0), output: z.number().min(0) }))).default({}),
+  tracing: z.object({
+    enabled: booleanFlag(false),
+    // otlp sends to an OpenTelemetry collector over HTTP, console prints spans
+    exporter: z.enum(['otlp', 'console']).default('otlp'),
+    // Defaults to the OTLP exporter's own default, http://localhost:4318/v1/traces
+    otlpEndpoint: z.string().default(''),
+    serviceName: z.string().default('nexora-context'),
+    // Share of new traces recorded; incoming traced requests keep their parent's decision
+    sampleRatio: z.coerce.number().min(0).max(1).default(1),
+  }).default({}),
+  // Proxy hops in front of the server whose X-Forwarded-For is trusted for the client IP
+  trustProxy: z.coerce.number().int().min(0).default(0),
+  rateLimit: z.object({
+    enabled: booleanFlag(true),
+    // Access token claim naming the caller's plan; unknown or missing plans get defaultTier
+    tierClaim: z.string().default('plan'),
+    defaultTier: z.string().default('free'),
+    tiers: jsonObject(z.record(rateLimitTierSchema)).default(DEFAULT_RATE_LIMIT_TIERS),
+    // Requests that have not (yet) authenticated, keyed by client IP
+    ip: z.object({
+      requestsPerMinute: z.coerce.number().positive().default(60),
+      burst: count(20),
+    }).default({}),
+    // An in-flight slot is freed after this long even if its release is lost
+    concurrencyLeaseMs: milliseconds(5 * 60 * 1000),
+  }).default({}),
+  health: z.object({
+    // /readyz reuses dependency check results for this long, so probes don't hammer the stores
+    cacheTtlMs: milliseconds(5000),
+    checkTimeoutMs: milliseconds(2000),
+  }).default({}),
+  // When the database job refills the request counters; get_usage reports the next run.
+  // The monthly refill happens at the same hour on the given day
+  usage: z.object({
+    dailyResetHourUtc: z.coerce.number().int().min(0).max(23).default(0),
+    monthlyResetDay: z.coerce.number().int().min(1).max(28).default(1),
+  }).default({}),
+}).superRefine((settings, ctx) => {
+  // Required settings are checked here rather than in the fields above, so one run reports all that are missing
+  const require = (value: unknown, pathParts: string[], reason: string = '') => {
+    if (!value) ctx.addIssue({ code: z.ZodIssueCode.custom, path: pathParts, message: `Required${reason ? ` ${reason}` : ''}` });
+  };
+
+  require(settings.protectedResourceMetadata, ['protectedResourceMetadata']);
+  require(settings.supabase.url, ['supabase', 'url']);
+  require(settings.supabase.serviceRoleKey, ['supabase', 'serviceRoleKey']);
+
+  if (settings.auth.provider === 'local') {
+    require(settings.auth.localSecret, ['auth', 'localSecret'], 'for the local identity provider');
+  } else {
+    require(settings.auth.issuer, ['auth', 'issuer'], `for the ${settings.auth.provider} identity provider`);
+    require(settings.auth.audience, ['auth', 'audience'], `for the ${settings.auth.provider} identity provider`);
+  }
+
+  if (settings.vectorStore.backend === 'weaviate') {
+    for (const key of ['host', 'apiKey', 'className'] as const) {
+      require(settings.vectorStore.weaviate[key], ['vectorStore', 'weaviate', key], 'for the weaviate vector store');
+    }
+  }
+
+  for (const [role, { provider, model }] of Object.entries(settings.llm.roles)) {
+    if (provider !== 'stub') require(model, ['llm', 'roles', role, 'model'], `for the ${provider} provider (or set llm.model)`);
+  }
+
+  const providers = [...Object.values(settings.llm.roles).map(role => role.provider), settings.llm.embedding.provider];
+  if (providers.includes('openai')) {
+    require(settings.llm.openaiApiKey, ['llm', 'openaiApiKey'], 'when any LLM role or the embeddings use openai');
+  }
+
+  if (!settings.rateLimit.tiers[settings.rateLimit.defaultTier]) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rateLimit', 'defaultTier'], message: `Must be one of rateLimit.tiers: ${Object.keys(settings.rateLimit.tiers).join(', ')}` });
+  }
+
+  if (settings.ingestion.chunkOverlap >= settings.ingestion.chunkSize) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ingestion', 'chunkOverlap'], message: 'Must be smaller than ingestion.chunkSize' });
+  }
+});
+
+export type Config = z.infer<typeof configSchema>;
+
+function readConfigFile(): { values: Record<string, any>; file?: string; error?: string } {
+  const file = process.env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
+  const resolved = path.resolve(file);
+
+  if (!fs.existsSync(resolved)) {
+    // Only an explicitly named file has to exist
+    return process.env.CONFIG_FILE ? { values: {}, error: `Config file not found: ${resolved}` } : { values: {} };
+  }
+
+  try {
+    const values = YAML.parse(fs.readFileSync(resolved, 'utf8')) ?? {};
+    if (typeof values !== 'object' || Array.isArray(values)) {
+      return { values: {}, file: resolved, error: `Config file ${resolved} must contain a mapping` };
+    }
+    return { values, file: resolved };
+  } catch (error) {
+    return { values: {}, file: resolved, error: `Config file ${resolved} is not valid YAML: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+function applyEnvOverrides(values: Record<string, any>): Record<string, any> {
+  const merged = structuredClone(values);
+
+  for (const [configPath, names] of Object.entries(ENV_OVERRIDES)) {
+    const name = names.find(n => process.env[n] !== undefined && process.env[n] !== '');
+    if (!name) continue;
+
+    const keys = configPath.split('.');
+    let target = merged;
+    for (const key of keys.slice(0, -1)) {
+      if (typeof target[key] !== 'object' || target[key] === null) target[key] = {};
+      target = target[key];
+    }
+    target[keys[keys.length - 1]] = process.env[name];
+  }
+
+  return merged;
+}
+
+// Copy of the values without the settings at the given paths
+function withoutPaths(values: Record<string, any>, paths: (string | number)[][]): Record<string, any> {
+  const pruned = structuredClone(values);
+  for (const issuePath of paths) {
+    let target: any = pruned;
+    for (const key of issuePath.slice(0, -1)) {
+      target = target?.[key];
+    }
+    if (target && typeof target === 'object' && issuePath.length > 0) {
+      delete target[issuePath[issuePath.length - 1]];
+    }
+  }
+  return pruned;
+}
+
+function findIssues(values: Record<string, any>): z.ZodIssue[] {
+  const result = configSchema.safeParse(values);
+  if (result.success) return [];
+
+  // Required settings are only checked once every value is valid, so check
+  // again with the invalid values dropped to report the missing ones as well
+  const issues = result.error.issues;
+  const retry = configSchema.safeParse(withoutPaths(values, issues.map(issue => issue.path)));
+  const reported = new Set(issues.map(issue => issue.path.join('.')));
+  return [...issues, ...(retry.success ? [] : retry.error.issues.filter(issue => !reported.has(issue.path.join('.'))))];
+}
+
+// Scalekit client credentials from before tokens were verified locally; nothing reads them anymore
+const REMOVED_ENV_VARS = ['SK_CLIENT_ID', 'SK_CLIENT_SECRET'];
+
+function loadConfig(): Config {
+  const { values, file, error } = readConfigFile();
+  const merged = applyEnvOverrides(values);
+  const result = configSchema.safeParse(merged);
+
+  const removed = REMOVED_ENV_VARS.filter(name => process.env[name]);
+  if (removed.length > 0) {
+    // The logger depends on config, so report straight to stderr
+    console.warn(`Ignoring ${removed.join(', ')}: tokens are verified against the issuer's signing keys (auth.issuer / SK_ENV_URL), no client credentials are needed`);
+  }
+
+  if (!error && result.success) {
+    return result.data;
+  }
+
+  const problems = [
+    ...(error ? [error] : []),
+    ...findIssues(merged).map(issue => {
+      const configPath = issue.path.join('.');
+      const envNames = ENV_OVERRIDES[configPath];
+      const hint = envNames ? ` (set ${envNames[0]} or ${configPath} in ${file || DEFAULT_CONFIG_FILE})` : '';
+      return `${configPath || '(root)'}: ${issue.message}${hint}`;
+    }),
+  ];
+
+  // The logger depends on config, so report straight to stderr
+  console.error(`Invalid configuration, ${problems.length} problem(s):\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  process.exit(1);
+}
+
+export const config = loadConfig();
@@ -1,8 +1,21 @@
 import { Request, Response } from 'express';
+import type { JwtPayload } from 'jsonwebtoken';
 import { config } from '../config/config.js';
+import type { ToolExtra } from './progress.js';
 
 export const oauthProtectedResourceHandler = (req: Request, res: Response) => {
-    const metadata = JSON.parse(config.protectedResourceMetadata);
     res.setHeader('Content-Type', 'application/json');
-    res.status(200).json(metadata);
-};
\ No newline at end of file
+    res.status(200).json(config.protectedResourceMetadata);
+};
+
+// Clerk user ID the auth middleware attached to the MCP request, for handlers without tool arguments
+export const getAuthenticatedUserId = (extra: ToolExtra): string | undefined => {
+    const clerkUserId = extra.authInfo?.extra?.clerkUserId;
+    return typeof clerkUserId === 'string' ? clerkUserId : undefined;
+};
+
+// All claims of the caller's verified access token, e.g. for tools that need email or org
+export const getVerifiedClaims = (extra: ToolExtra): JwtPayload | undefined => {
+    const claims = extra.authInfo?.extra?.claims;
+    return claims && typeof claims === 'object' ? claims as JwtPayload : undefined;
+};
@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import { config } from '../config/config.js';
+import { logger } from './logger.js';
+import { cacheEvictions, cacheOperations } from './metrics.js';
+
+/**
+ * Storage behind the cache. Values are JSON strings so a shared backend
+ * (Redis, Memcached, ...) can be plugged in with `setCacheBackend`.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Removes every key starting with the prefix
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+export interface CacheOptions<T> {
+  ttlMs: number;
+  // Skip storing values that should be recomputed next time, e.g. empty fallbacks
+  shouldCache?: (value: T) => boolean;
+}
+
+// Generation markers outlive any cached entry they guard
+const GENERATION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Process-local LRU with per-entry expiry.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      cacheEvictions.inc();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
+
+let backend: CacheBackend = new MemoryCacheBackend(config.cache.maxEntries);
+
+export function setCacheBackend(next: CacheBackend): void {
+  backend = next;
+  logger.info(`Cache backend set to ${next.name}`);
+}
+
+// Case, whitespace and trailing punctuation don't change what a query asks for
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[\s?!.]+$/, '');
+}
+
+/**
+ * Returns the cached value for (namespace, user, key parts) or computes and
+ * stores it. Entries are isolated per user and dropped when the user's data
+ * changes (see `invalidateUserCache`). Cache failures never fail the caller.
+ */
+export async function cached<T>(
+  namespace: string,
+  clerkUserId: string,
+  keyParts: unknown[],
+  options: CacheOptions<T>,
+  compute: () => Promise<T>
+): Promise<T> {
+  if (!config.cache.enabled) {
+    return compute();
+  }
+
+  let key: string | undefined;
+
+  try {
+    const generation = await getGeneration(clerkUserId);
+    key = `${userPrefix(clerkUserId)}${namespace}:${generation}:${hashKey(keyParts)}`;
+
+    const hit = await backend.get(key);
+    if (hit !== undefined) {
+      cacheOperations.inc({ namespace, outcome: 'hit' });
+      return JSON.parse(hit) as T;
+    }
+    cacheOperations.inc({ namespace, outcome: 'miss' });
+  } catch (error) {
+    cacheOperations.inc({ namespace, outcome: 'error' });
+    logger.warn(`Cache read failed (${namespace})`, { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  const value = await compute();
+
+  if (key && (!options.shouldCache || options.shouldCache(value))) {
+    try {
+      await backend.set(key, JSON.stringify(value), options.ttlMs);
+      cacheOperations.inc({ namespace, outcome: 'set' });
+    } catch (error) {
+      cacheOperations.inc({ namespace, outcome: 'error' });
+      logger.warn(`Cache write failed (${namespace})`, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return value;
+}
+
+// Drop every cached entry for the user by moving them to a new generation
+export async function invalidateUserCache(clerkUserId: string): Promise<void> {
+  try {
+    await backend.set(generationKey(clerkUserId), String(Date.now()), GENERATION_TTL_MS);
+    logger.info('User cache invalidated', { clerkUserId });
+  } catch (error) {
+    logger.error('Cache invalidation failed', { clerkUserId, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Invalidates the user's entries and also deletes them from the backend,
+ * for erasure: a new generation alone leaves the old values in memory until
+ * they expire or are evicted.
+ */
+export async function purgeUserCache(clerkUserId: string): Promise<void> {
+  await invalidateUserCache(clerkUserId);
+  try {
+    await backend.deletePrefix(userPrefix(clerkUserId));
+    logger.info('User cache purged', { clerkUserId });
+  } catch (error) {
+    logger.error('Cache purge failed', { clerkUserId, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+async function getGeneration(clerkUserId: string): Promise<string> {
+  return (await backend.get(generationKey(clerkUserId))) || '0';
+}
+
+// Every cached value for the user starts with this, the generation marker doesn't
+function userPrefix(clerkUserId: string): string {
+  return `user:${clerkUserId}:`;
+}
+
+function generationKey(clerkUserId: string): string {
+  return `generation:${clerkUserId}`;
+}
+
+function hashKey(parts: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
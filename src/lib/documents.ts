@@ -0,0 +1,135 @@
+import { config } from '../config/config.js';
+import { supabase } from './supabase.js';
+
+export interface DocumentSummary {
+  id: string;
+  title: string;
+  createdAt?: string;
+}
+
+export interface DocumentRecord extends DocumentSummary {
+  content: string;
+}
+
+export interface DocumentPage {
+  documents: DocumentSummary[];
+  // Offset of the next page; undefined on the last one
+  nextOffset?: number;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+
+// One page of the user's uploaded documents, newest first
+export async function listDocuments(clerkUserId: string, offset: number = 0, limit: number = DEFAULT_LIST_LIMIT): Promise<DocumentPage> {
+  // One row past the page tells whether another page follows
+  const { data, error } = await supabase
+    .from(config.documentsTable)
+    .select('id, title, created_at')
+    .eq('clerk_user_id', clerkUserId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit);
+
+  if (error) {
+    throw new Error(`Failed to list documents: ${error.message}`);
+  }
+
+  const rows = data || [];
+  return {
+    documents: rows.slice(0, limit).map((row: any) => ({
+      id: String(row.id),
+      title: row.title || `Document ${row.id}`,
+      createdAt: row.created_at
+    })),
+    nextOffset: rows.length > limit ? offset + limit : undefined
+  };
+}
+
+// One document, or undefined when it does not exist or belongs to someone else
+export async function getDocument(clerkUserId: string, documentId: string): Promise<DocumentRecord | undefined> {
+  const { data, error } = await supabase
+    .from(config.documentsTable)
+    .select('id, title, content, created_at')
+    .eq('clerk_user_id', clerkUserId)
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read document: ${error.message}`);
+  }
+  if (!data) return undefined;
+
+  return {
+    id: String(data.id),
+    title: data.title || `Document ${data.id}`,
+    content: data.content || '',
+    createdAt: data.created_at
+  };
+}
+
+// Stores a new document; its content is what keyword search matches against
+export async function createDocument(clerkUserId: string, document: { title: string; content: string }): Promise<DocumentSummary> {
+  const { data, error } = await supabase
+    .from(config.documentsTable)
+    .insert({ clerk_user_id: clerkUserId, title: document.title, content: document.content })
+    .select('id, title, created_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create document: ${error.message}`);
+  }
+
+  return {
+    id: String(data.id),
+    title: data.title || `Document ${data.id}`,
+    createdAt: data.created_at
+  };
+}
+
+// Removes the document row only; returns false when nothing matched
+export async function deleteDocumentRecord(clerkUserId: string, documentId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from(config.documentsTable)
+    .delete()
+    .eq('clerk_user_id', clerkUserId)
+    .eq('id', documentId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete document: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+export async function deleteAllDocumentRecords(clerkUserId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(config.documentsTable)
+    .delete()
+    .eq('clerk_user_id', clerkUserId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete documents: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
+// Document rows for the user, or for one document
+export async function countDocumentRecords(clerkUserId: string, documentId?: string): Promise<number> {
+  let query = supabase
+    .from(config.documentsTable)
+    .select('id', { count: 'exact', head: true })
+    .eq('clerk_user_id', clerkUserId);
+
+  if (documentId) {
+    query = query.eq('id', documentId);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count documents: ${error.message}`);
+  }
+  return count || 0;
+}
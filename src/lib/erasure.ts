@@ -0,0 +1,164 @@
+import { config } from '../config/config.js';
+import { purgeUserCache } from './cache.js';
+import { countDocumentRecords, deleteAllDocumentRecords, deleteDocumentRecord } from './documents.js';
+import { countGraph, deleteGraph } from './ingestion/graph-extractor.js';
+import { logger } from './logger.js';
+import { supabase } from './supabase.js';
+import { getVectorStore } from './vector-store/index.js';
+
+export type ErasureScope = 'document' | 'account';
+
+export type ErasureStore = 'documents' | 'knowledge_graph' | 'vector_store';
+
+export interface StoreCounts {
+  documents: number;
+  entities: number;
+  relationships: number;
+  chunks: number;
+}
+
+export interface ErasureResult {
+  scope: ErasureScope;
+  clerkUserId: string;
+  documentId?: string;
+  deleted: StoreCounts;
+  // What was still found after deleting; all zero when verified, null when the check itself failed
+  remaining: StoreCounts | null;
+  // Stores whose delete call failed; the others were still cleared
+  failedStores: ErasureStore[];
+  verified: boolean;
+  // Why the check after deleting could not run
+  verificationError?: string;
+  auditRecorded: boolean;
+}
+
+/**
+ * Removes one document from the keyword table, the knowledge graph tables
+ * and the vector store, then checks that none of it is left. Every store is
+ * cleared even when another has nothing for the ID or fails, so leftovers
+ * from an earlier partial run are removed too.
+ */
+export async function eraseDocument(clerkUserId: string, documentId: string, requestedBy: string): Promise<ErasureResult> {
+  logger.info('🗑️ Erasing document', { clerkUserId, documentId });
+
+  const failedStores: ErasureStore[] = [];
+  const [graph, chunks] = await Promise.all([
+    eraseFrom('knowledge_graph', failedStores, { entities: 0, relationships: 0 }, () => deleteGraph(clerkUserId, documentId)),
+    eraseFrom('vector_store', failedStores, 0, () => getVectorStore().deleteDocument(clerkUserId, documentId))
+  ]);
+  // The row goes last so a failed run can still be found and retried with the same ID
+  const documents = await eraseFrom('documents', failedStores, 0, async () => await deleteDocumentRecord(clerkUserId, documentId) ? 1 : 0);
+
+  return finishErasure('document', clerkUserId, documentId, requestedBy, { documents, ...graph, chunks }, failedStores);
+}
+
+/**
+ * Removes everything stored for the user in all three stores, including the
+ * whole vector store tenant. Usage and billing records are kept; they hold
+ * counters, not document content.
+ */
+export async function eraseAccount(clerkUserId: string, requestedBy: string): Promise<ErasureResult> {
+  logger.info('🗑️ Erasing all data for user', { clerkUserId });
+
+  const vectorStore = getVectorStore();
+  const failedStores: ErasureStore[] = [];
+  const [graph, chunks] = await Promise.all([
+    eraseFrom('knowledge_graph', failedStores, { entities: 0, relationships: 0 }, () => deleteGraph(clerkUserId)),
+    eraseFrom('vector_store', failedStores, 0, async () => {
+      const count = await vectorStore.count(clerkUserId);
+      await vectorStore.deleteTenant(clerkUserId);
+      return count;
+    })
+  ]);
+  const documents = await eraseFrom('documents', failedStores, 0, () => deleteAllDocumentRecords(clerkUserId));
+
+  return finishErasure('account', clerkUserId, undefined, requestedBy, { documents, ...graph, chunks }, failedStores);
+}
+
+// A failing store is recorded rather than thrown, so the remaining stores are still cleared
+async function eraseFrom<T>(store: ErasureStore, failedStores: ErasureStore[], fallback: T, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    failedStores.push(store);
+    logger.error('Erasure failed in one store', { store, error: error instanceof Error ? error.message : String(error) });
+    return fallback;
+  }
+}
+
+async function finishErasure(
+  scope: ErasureScope,
+  clerkUserId: string,
+  documentId: string | undefined,
+  requestedBy: string,
+  deleted: StoreCounts,
+  failedStores: ErasureStore[]
+): Promise<ErasureResult> {
+  let remaining: StoreCounts | null = null;
+  let verificationError: string | undefined;
+
+  // Data is already gone at this point, so a failed check must still leave an audit row
+  try {
+    // Cached answers and retrievals may quote the erased content
+    await purgeUserCache(clerkUserId);
+    remaining = await countRemaining(clerkUserId, documentId);
+  } catch (error) {
+    verificationError = error instanceof Error ? error.message : String(error);
+    logger.error(`Could not verify erasure of ${scope}`, { clerkUserId, documentId, error: verificationError });
+  }
+
+  const verified = remaining !== null && failedStores.length === 0 && Object.values(remaining).every(count => count === 0);
+
+  if (remaining && !verified) {
+    logger.error(`Erasure of ${scope} left data behind`, { clerkUserId, documentId, remaining, failedStores });
+  }
+
+  const result: ErasureResult = {
+    scope,
+    clerkUserId,
+    documentId,
+    deleted,
+    remaining,
+    failedStores,
+    verified,
+    ...(verificationError && { verificationError }),
+    auditRecorded: false
+  };
+  result.auditRecorded = await recordAudit(result, requestedBy);
+
+  logger.info(`✅ Erasure of ${scope} finished`, { clerkUserId, documentId, deleted, verified });
+  return result;
+}
+
+async function countRemaining(clerkUserId: string, documentId?: string): Promise<StoreCounts> {
+  const [documents, graph, chunks] = await Promise.all([
+    countDocumentRecords(clerkUserId, documentId),
+    countGraph(clerkUserId, documentId),
+    getVectorStore().count(clerkUserId, documentId)
+  ]);
+  return { documents, ...graph, chunks };
+}
+
+// The audit row names what was erased and when, never any of the erased content
+async function recordAudit(result: ErasureResult, requestedBy: string): Promise<boolean> {
+  const { error } = await supabase
+    .from(config.erasureAuditTable)
+    .insert({
+      clerk_user_id: result.clerkUserId,
+      scope: result.scope,
+      document_id: result.documentId ?? null,
+      requested_by: requestedBy,
+      deleted_counts: result.deleted,
+      remaining_counts: result.remaining,
+      failed_stores: result.failedStores,
+      verified: result.verified,
+      verification_error: result.verificationError ?? null,
+      vector_store: getVectorStore().name
+    });
+
+  if (error) {
+    logger.error('Failed to record erasure audit', { clerkUserId: result.clerkUserId, scope: result.scope, error: error.message });
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,37 @@
+import { TimeoutError } from './concurrency.js';
+
+export type ErrorCategory = 'rate_limit' | 'auth' | 'timeout' | 'network' | 'internal';
+
+// Sort an error into a coarse category for usage tracking and user-facing messages
+export function classifyError(error: unknown): ErrorCategory {
+  if (error instanceof TimeoutError) {
+    return 'timeout';
+  }
+
+  const errorString = error instanceof Error ? error.message : String(error);
+
+  if (errorString.includes('429') ||
+      errorString.includes('rate limit') ||
+      errorString.includes('quota') ||
+      errorString.includes('Request too large') ||
+      errorString.includes('tokens per min')) {
+    return 'rate_limit';
+  }
+
+  if (errorString.includes('401') ||
+      errorString.includes('403') ||
+      errorString.includes('unauthorized')) {
+    return 'auth';
+  }
+
+  if (errorString.includes('timeout') || errorString.includes('timed out')) {
+    return 'timeout';
+  }
+
+  if (errorString.includes('ECONNREFUSED') ||
+      errorString.includes('network')) {
+    return 'network';
+  }
+
+  return 'internal';
+}
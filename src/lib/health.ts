@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { config } from '../config/config.js';
+import { withTimeout } from './concurrency.js';
+import { getEmbeddingClient, getLlmClient, LlmRole } from './llm.js';
+import { logger } from './logger.js';
+import { supabase } from './supabase.js';
+import { getVectorStore } from './vector-store/index.js';
+
+export interface DependencyStatus {
+  status: 'ok' | 'fail';
+  latencyMs: number;
+  error?: string;
+  detail?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  checkedAt: string;
+  checks: Record<string, DependencyStatus>;
+}
+
+type DependencyCheck = () => Promise<Record<string, unknown> | void>;
+
+const startedAt = Date.now();
+
+const checks: Record<string, DependencyCheck> = {
+  supabase: async () => {
+    const { error } = await supabase
+      .from('users')
+      .select('clerk_user_id', { head: true })
+      .limit(1);
+    if (error) {
+      throw new Error(error.message || 'Supabase query failed');
+    }
+  },
+
+  vectorStore: async () => {
+    const vectorStore = getVectorStore();
+    await vectorStore.ping();
+    return { backend: vectorStore.name };
+  },
+
+  // Configuration only: creating the clients catches unknown providers without spending tokens
+  llm: async () => {
+    const roles = Object.fromEntries(
+      (Object.keys(config.llm.roles) as LlmRole[]).map(role => {
+        const client = getLlmClient(role);
+        return [role, `${client.provider}/${client.model}`];
+      })
+    );
+    const embedding = getEmbeddingClient();
+    return { roles, embedding: `${embedding.provider}/${embedding.model}` };
+  },
+};
+
+let cachedReport: { report: ReadinessReport; expiresAt: number } | undefined;
+let pendingReport: Promise<ReadinessReport> | undefined;
+
+async function runCheck(name: string, check: DependencyCheck): Promise<DependencyStatus> {
+  const start = Date.now();
+  try {
+    const detail = await withTimeout(check(), config.health.checkTimeoutMs, `Readiness check ${name}`);
+    return { status: 'ok', latencyMs: Date.now() - start, ...(detail ? { detail } : {}) };
+  } catch (error) {
+    return { status: 'fail', latencyMs: Date.now() - start, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Checks every dependency in parallel. Results are reused for
+ * health.cacheTtlMs and concurrent probes share one run.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  if (cachedReport && cachedReport.expiresAt > Date.now()) {
+    return cachedReport.report;
+  }
+
+  if (!pendingReport) {
+    pendingReport = (async () => {
+      const results = await Promise.all(
+        Object.entries(checks).map(async ([name, check]) => [name, await runCheck(name, check)] as const)
+      );
+      const report: ReadinessReport = {
+        status: results.every(([, result]) => result.status === 'ok') ? 'ready' : 'not_ready',
+        checkedAt: new Date().toISOString(),
+        checks: Object.fromEntries(results),
+      };
+
+      if (report.status !== 'ready') {
+        const failed = results.filter(([, result]) => result.status === 'fail').map(([name, result]) => ({ name, error: result.error }));
+        logger.warn('🚦 Readiness check failed', { failed });
+      }
+
+      cachedReport = { report, expiresAt: Date.now() + config.health.cacheTtlMs };
+      return report;
+    })().finally(() => {
+      pendingReport = undefined;
+    });
+  }
+
+  return pendingReport;
+}
+
+// Liveness: the process is up and serving; dependencies are /readyz's job
+export const healthzHandler = (req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'ok',
+    version: config.serverVersion,
+    uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+  });
+};
+
+// 503 takes the instance out of rotation until its stores are back
+export const readyzHandler = async (req: Request, res: Response) => {
+  const report = await checkReadiness();
+  res.status(report.status === 'ready' ? 200 : 503).json(report);
+};
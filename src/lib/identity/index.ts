@@ -0,0 +1,32 @@
+import { config } from '../../config/config.js';
+import { LocalIdentityProvider, OidcIdentityProvider, ScalekitIdentityProvider } from './providers.js';
+import { IdentityProvider } from './types.js';
+
+export * from './types.js';
+export * from './providers.js';
+
+let identityProvider: IdentityProvider | undefined;
+
+// The configured token issuer, created once so its key cache is shared
+export function getIdentityProvider(): IdentityProvider {
+  if (!identityProvider) {
+    identityProvider = createIdentityProvider(config.auth.provider);
+  }
+  return identityProvider;
+}
+
+function createIdentityProvider(provider: string): IdentityProvider {
+  const { issuer, audience, jwksUri, jwksCacheTtlMs, jwksMinRefreshIntervalMs, clockToleranceSec, localSecret } = config.auth;
+  const jwksOptions = { cacheTtlMs: jwksCacheTtlMs, minRefreshIntervalMs: jwksMinRefreshIntervalMs };
+
+  switch (provider) {
+    case 'scalekit':
+      return new ScalekitIdentityProvider({ issuer, audience, jwksUri: jwksUri || undefined, clockToleranceSec, ...jwksOptions });
+    case 'oidc':
+      return new OidcIdentityProvider({ issuer, audience, jwksUri: jwksUri || undefined, clockToleranceSec, ...jwksOptions });
+    case 'local':
+      return new LocalIdentityProvider({ issuer, audience, secret: localSecret, clockToleranceSec });
+    default:
+      throw new Error(`Unknown identity provider "${provider}"`);
+  }
+}
@@ -0,0 +1,80 @@
+import jwkToPem, { JWK } from 'jwk-to-pem';
+import { logger } from '../logger.js';
+import { TokenVerificationError } from './types.js';
+
+export interface JwksCacheOptions {
+  // How long fetched keys are trusted before the set is fetched again
+  cacheTtlMs: number;
+  // Unknown key IDs trigger a refetch at most this often, so bad tokens can't flood the provider
+  minRefreshIntervalMs: number;
+}
+
+/**
+ * The issuer's signing keys as PEM, keyed by `kid`. Keys are fetched once and
+ * refreshed when they expire or when a token names a key we haven't seen,
+ * which is how a provider's key rotation shows up.
+ */
+export class JwksCache {
+  private keys = new Map<string, string>();
+  private fetchedAt = 0;
+  private pending?: Promise<void>;
+
+  constructor(private jwksUri: () => Promise<string>, private options: JwksCacheOptions) {}
+
+  async getKey(kid: string | undefined): Promise<string> {
+    if (Date.now() - this.fetchedAt > this.options.cacheTtlMs) {
+      await this.refresh();
+    }
+
+    let key = this.findKey(kid);
+    if (!key && Date.now() - this.fetchedAt > this.options.minRefreshIntervalMs) {
+      logger.info('Unknown signing key, refreshing JWKS', { kid });
+      await this.refresh();
+      key = this.findKey(kid);
+    }
+
+    if (!key) {
+      throw new TokenVerificationError(`No signing key found for kid "${kid}"`, 'unknown_key');
+    }
+    return key;
+  }
+
+  // Concurrent callers share one fetch
+  private refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const uri = await this.jwksUri();
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`JWKS request to ${uri} failed with ${response.status}`);
+    }
+
+    const { keys = [] } = await response.json() as { keys?: Array<JWK & { kid?: string; use?: string }> };
+    const next = new Map<string, string>();
+    for (const jwk of keys) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        next.set(jwk.kid || '', jwkToPem(jwk));
+      } catch (error) {
+        logger.warn('Skipping unsupported JWK', { kid: jwk.kid, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    this.keys = next;
+    this.fetchedAt = Date.now();
+    logger.info(`🔑 Loaded ${next.size} signing keys from ${uri}`);
+  }
+
+  // Tokens without a kid are accepted only when the set has a single key
+  private findKey(kid: string | undefined): string | undefined {
+    if (kid) return this.keys.get(kid);
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+}
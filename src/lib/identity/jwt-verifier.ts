@@ -0,0 +1,61 @@
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+import { TokenVerificationError, VerifiedToken } from './types.js';
+
+export interface JwtVerifierOptions {
+  issuer: string;
+  audience?: string;
+  algorithms: Algorithm[];
+  clockToleranceSec: number;
+  // Resolves the verification key for the token's `kid` header
+  getKey: (kid: string | undefined) => Promise<string>;
+}
+
+/**
+ * Checks signature, issuer, audience and expiry of a JWT access token and
+ * maps its claims to a VerifiedToken.
+ */
+export class JwtVerifier {
+  constructor(private options: JwtVerifierOptions) {}
+
+  async verify(token: string): Promise<VerifiedToken> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new TokenVerificationError('Token is not a JWT', 'malformed');
+    }
+
+    const key = await this.options.getKey(decoded.header.kid);
+
+    let claims: JwtPayload;
+    try {
+      claims = jwt.verify(token, key, {
+        issuer: this.options.issuer,
+        audience: this.options.audience || undefined,
+        algorithms: this.options.algorithms,
+        clockTolerance: this.options.clockToleranceSec
+      }) as JwtPayload;
+    } catch (error) {
+      const reason = error instanceof jwt.TokenExpiredError ? 'expired' : 'invalid';
+      throw new TokenVerificationError(error instanceof Error ? error.message : String(error), reason);
+    }
+
+    if (!claims.sub) {
+      throw new TokenVerificationError('Token has no subject');
+    }
+
+    return {
+      subject: claims.sub,
+      clientId: claims.client_id || claims.azp || '',
+      scopes: parseScopes(claims),
+      expiresAt: claims.exp,
+      claims
+    };
+  }
+}
+
+// `scope` is a space-separated string (RFC 9068); some providers send `scp` or `scopes` arrays
+function parseScopes(claims: JwtPayload): string[] {
+  const scopes = claims.scope ?? claims.scp ?? claims.scopes;
+  if (typeof scopes === 'string') return scopes.split(' ').filter(Boolean);
+  if (Array.isArray(scopes)) return scopes.map(String);
+  return [];
+}
@@ -0,0 +1,132 @@
+import jwt from 'jsonwebtoken';
+import { JwksCache, JwksCacheOptions } from './jwks.js';
+import { JwtVerifier } from './jwt-verifier.js';
+import { IdentityProvider, VerifiedToken } from './types.js';
+
+export interface OidcProviderOptions extends JwksCacheOptions {
+  issuer: string;
+  audience?: string;
+  // Taken from the issuer's discovery document when not set
+  jwksUri?: string;
+  clockToleranceSec: number;
+}
+
+/**
+ * Any OpenID Connect / OAuth 2.0 issuer publishing RS or ES signing keys as JWKS.
+ */
+export class OidcIdentityProvider implements IdentityProvider {
+  readonly name: string = 'oidc';
+  readonly issuer: string;
+  private verifier: JwtVerifier;
+  private discoveredJwksUri?: Promise<string>;
+
+  constructor(private options: OidcProviderOptions) {
+    this.issuer = options.issuer;
+    const jwks = new JwksCache(() => this.jwksUri(), options);
+    this.verifier = new JwtVerifier({
+      issuer: options.issuer,
+      audience: options.audience,
+      algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'],
+      clockToleranceSec: options.clockToleranceSec,
+      getKey: kid => jwks.getKey(kid)
+    });
+  }
+
+  verify(token: string): Promise<VerifiedToken> {
+    return this.verifier.verify(token);
+  }
+
+  protected jwksUri(): Promise<string> {
+    if (this.options.jwksUri) {
+      return Promise.resolve(this.options.jwksUri);
+    }
+
+    if (!this.discoveredJwksUri) {
+      this.discoveredJwksUri = discoverJwksUri(this.options.issuer).catch(error => {
+        // Retry discovery on the next token instead of caching the failure
+        this.discoveredJwksUri = undefined;
+        throw error;
+      });
+    }
+    return this.discoveredJwksUri;
+  }
+}
+
+/**
+ * Scalekit environments serve their signing keys at `<environment URL>/keys`
+ * and issue tokens with the environment URL as issuer.
+ */
+export class ScalekitIdentityProvider extends OidcIdentityProvider {
+  readonly name = 'scalekit';
+
+  constructor(options: Omit<OidcProviderOptions, 'jwksUri'> & { jwksUri?: string }) {
+    super({
+      ...options,
+      jwksUri: options.jwksUri || `${options.issuer.replace(/\/$/, '')}/keys`
+    });
+  }
+}
+
+export interface LocalProviderOptions {
+  issuer: string;
+  audience?: string;
+  secret: string;
+  clockToleranceSec: number;
+}
+
+/**
+ * HS256 tokens signed with a shared secret, for local development and tests.
+ * `issueToken` mints tokens the provider accepts.
+ */
+export class LocalIdentityProvider implements IdentityProvider {
+  readonly name = 'local';
+  readonly issuer: string;
+  private verifier: JwtVerifier;
+
+  constructor(private options: LocalProviderOptions) {
+    if (!options.secret) {
+      throw new Error('The local identity provider needs a signing secret');
+    }
+    this.issuer = options.issuer;
+    this.verifier = new JwtVerifier({
+      issuer: options.issuer,
+      audience: options.audience,
+      algorithms: ['HS256'],
+      clockToleranceSec: options.clockToleranceSec,
+      getKey: async () => options.secret
+    });
+  }
+
+  verify(token: string): Promise<VerifiedToken> {
+    return this.verifier.verify(token);
+  }
+
+  issueToken(subject: string, options: { scopes?: string[]; clientId?: string; expiresInSec?: number } = {}): string {
+    return jwt.sign(
+      { scope: (options.scopes || []).join(' '), client_id: options.clientId || 'local' },
+      this.options.secret,
+      {
+        algorithm: 'HS256',
+        subject,
+        issuer: this.options.issuer,
+        // jsonwebtoken rejects an explicit undefined audience
+        ...(this.options.audience ? { audience: this.options.audience } : {}),
+        expiresIn: options.expiresInSec ?? 3600
+      }
+    );
+  }
+}
+
+async function discoverJwksUri(issuer: string): Promise<string> {
+  const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery at ${url} failed with ${response.status}`);
+  }
+
+  const { jwks_uri: jwksUri } = await response.json() as { jwks_uri?: string };
+  if (!jwksUri) {
+    throw new Error(`OIDC discovery at ${url} has no jwks_uri`);
+  }
+  return jwksUri;
+}
@@ -0,0 +1,30 @@
+import type { JwtPayload } from 'jsonwebtoken';
+
+// Claims of a token whose signature, issuer, audience and expiry were checked
+export interface VerifiedToken {
+  subject: string;
+  clientId: string;
+  scopes: string[];
+  expiresAt?: number;
+  claims: JwtPayload;
+}
+
+/**
+ * Verifies access tokens issued by one OAuth provider. Implementations verify
+ * locally against cached keys; they must not call the provider per request.
+ */
+export interface IdentityProvider {
+  readonly name: string;
+  readonly issuer: string;
+  verify(token: string): Promise<VerifiedToken>;
+}
+
+// Coarse cause of a rejected token, used as a metrics label
+export type TokenFailureReason = 'missing_token' | 'malformed' | 'expired' | 'unknown_key' | 'invalid';
+
+export class TokenVerificationError extends Error {
+  constructor(message: string, readonly reason: TokenFailureReason = 'invalid') {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
@@ -0,0 +1,106 @@
+export type DocumentFormat = 'text' | 'markdown';
+
+export interface ChunkOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+  format: DocumentFormat;
+}
+
+interface Piece {
+  text: string;
+  // Sentences of one paragraph are rejoined with a space, paragraphs with a blank line
+  separator: string;
+}
+
+interface Section {
+  heading?: string;
+  body: string;
+}
+
+/**
+ * Splits a document into chunks of about `chunkSize` characters along
+ * paragraph and sentence boundaries. Markdown is split at headings first and
+ * each chunk starts with its section heading so it stays meaningful on its own.
+ * Neighbouring chunks of a section share `chunkOverlap` characters.
+ */
+export function chunkText(text: string, options: ChunkOptions): string[] {
+  const sections = options.format === 'markdown' ? splitMarkdownSections(text) : [{ body: text }];
+  const chunks: string[] = [];
+
+  for (const section of sections) {
+    const prefix = section.heading ? `${section.heading}\n\n` : '';
+    const budget = Math.max(options.chunkSize - prefix.length, Math.floor(options.chunkSize / 2));
+
+    for (const chunk of packPieces(splitPieces(section.body, budget), budget, options.chunkOverlap)) {
+      chunks.push(`${prefix}${chunk}`);
+    }
+  }
+
+  return chunks;
+}
+
+function splitMarkdownSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { body: '' };
+  let inCodeBlock = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*```/.test(line)) inCodeBlock = !inCodeBlock;
+
+    if (!inCodeBlock && /^#{1,6}\s+\S/.test(line)) {
+      if (current.body.trim() || current.heading) sections.push(current);
+      current = { heading: line.trim(), body: '' };
+    } else {
+      current.body += `${line}\n`;
+    }
+  }
+  if (current.body.trim() || current.heading) sections.push(current);
+
+  return sections.filter(section => section.body.trim());
+}
+
+// Paragraphs, falling back to sentences and then hard cuts for oversized ones
+function splitPieces(text: string, maxLength: number): Piece[] {
+  const pieces: Piece[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (paragraph.length <= maxLength) {
+      pieces.push({ text: paragraph, separator: '\n\n' });
+      continue;
+    }
+
+    paragraph.split(/(?<=[.!?])\s+/).forEach((sentence, index) => {
+      for (let start = 0; start < sentence.length; start += maxLength) {
+        pieces.push({ text: sentence.slice(start, start + maxLength), separator: index === 0 && start === 0 ? '\n\n' : ' ' });
+      }
+    });
+  }
+
+  return pieces;
+}
+
+function packPieces(pieces: Piece[], maxLength: number, overlap: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.separator.length + piece.text.length > maxLength) {
+      chunks.push(current);
+      const tail = overlapTail(current, Math.min(overlap, maxLength - piece.text.length - 1));
+      current = tail ? `${tail} ${piece.text}` : piece.text;
+    } else {
+      current = current ? `${current}${piece.separator}${piece.text}` : piece.text;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+// The last `length` characters, starting at a word boundary
+function overlapTail(text: string, length: number): string {
+  if (length <= 0) return '';
+  const tail = text.slice(-length);
+  const boundary = tail.search(/\s/);
+  return boundary >= 0 ? tail.slice(boundary).trim() : '';
+}
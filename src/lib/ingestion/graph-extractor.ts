@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import { config } from '../../config/config.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import { getLlmClient } from '../llm.js';
+import { logger } from '../logger.js';
+import { supabase } from '../supabase.js';
+import { UsageMeter } from '../usage-meter.js';
+
+export interface ExtractedEntity {
+  name: string;
+  type: string;
+  description?: string;
+}
+
+export interface ExtractedRelationship {
+  subject: string;
+  predicate: string;
+  object: string;
+}
+
+export interface ExtractedGraph {
+  entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
+}
+
+const extractionSchema = z.object({
+  entities: z.array(z.object({
+    name: z.string().min(1),
+    type: z.string().default('concept'),
+    description: z.string().optional()
+  })).default([]),
+  relationships: z.array(z.object({
+    subject: z.string().min(1),
+    predicate: z.string().min(1),
+    object: z.string().min(1)
+  })).default([])
+});
+
+const EXTRACTION_PROMPT = `Extract the knowledge graph from the text.
+Return ONLY a JSON object:
+{"entities": [{"name": "...", "type": "person|organization|place|concept|event|product|other", "description": "one short sentence"}],
+ "relationships": [{"subject": "entity name", "predicate": "snake_case_verb", "object": "entity name"}]}
+Use the names exactly as they appear in the text. Only include relationships the text states.`;
+
+/**
+ * Extracts entities and relationships from every chunk with the extract_graph
+ * LLM role and merges them per document. A chunk that fails to extract is
+ * skipped rather than failing the whole document.
+ */
+export async function extractGraph(chunks: string[], usageMeter?: UsageMeter): Promise<ExtractedGraph> {
+  const perChunk = await mapWithConcurrency(chunks, config.ingestion.extractionConcurrency, async (chunk, index) => {
+    try {
+      const response = await getLlmClient('extract_graph').complete({
+        messages: [
+          { role: 'system', content: EXTRACTION_PROMPT },
+          { role: 'user', content: chunk }
+        ],
+        json: true
+      });
+      usageMeter?.record('extract_graph', response.model, response.usage);
+
+      return extractionSchema.parse(JSON.parse(response.content || '{}'));
+    } catch (error) {
+      logger.warn(`Graph extraction failed for chunk ${index}`, { error: error instanceof Error ? error.message : String(error) });
+      return { entities: [], relationships: [] };
+    }
+  });
+
+  return mergeGraphs(perChunk);
+}
+
+/**
+ * Writes the document's entities and relationships, tagged with its data_id.
+ * The two inserts aren't one transaction, so if the second fails the rows
+ * already written for the document are removed again: the graph is saved
+ * whole or not at all.
+ */
+export async function saveGraph(clerkUserId: string, documentId: string, graph: ExtractedGraph): Promise<void> {
+  if (graph.entities.length > 0) {
+    const { error } = await supabase
+      .from(config.knowledgeGraph.entitiesTable)
+      .insert(graph.entities.map(entity => ({
+        clerk_user_id: clerkUserId,
+        data_id: documentId,
+        entity_name: entity.name,
+        entity_type: entity.type,
+        entity_description: entity.description ?? null
+      })));
+
+    if (error) {
+      throw new Error(`Failed to save entities: ${error.message}`);
+    }
+  }
+
+  if (graph.relationships.length > 0) {
+    const { error } = await supabase
+      .from(config.knowledgeGraph.relationshipsTable)
+      .insert(graph.relationships.map(relationship => ({
+        clerk_user_id: clerkUserId,
+        data_id: documentId,
+        subject: relationship.subject,
+        predicate: relationship.predicate,
+        object: relationship.object
+      })));
+
+    if (error) {
+      await deleteGraph(clerkUserId, documentId).catch(cleanupError =>
+        logger.error('Failed to remove entities after relationship insert error', { documentId, error: cleanupError })
+      );
+      throw new Error(`Failed to save relationships: ${error.message}`);
+    }
+  }
+}
+
+// One entry per entity name and per (subject, predicate, object), case-insensitively
+function mergeGraphs(graphs: ExtractedGraph[]): ExtractedGraph {
+  const entities = new Map<string, ExtractedEntity>();
+  const relationships = new Map<string, ExtractedRelationship>();
+
+  for (const graph of graphs) {
+    for (const entity of graph.entities) {
+      const key = entity.name.trim().toLowerCase();
+      const existing = entities.get(key);
+      if (!existing) {
+        entities.set(key, { ...entity, name: entity.name.trim() });
+      } else if (!existing.description && entity.description) {
+        existing.description = entity.description;
+      }
+    }
+
+    for (const relationship of graph.relationships) {
+      const key = [relationship.subject, relationship.predicate, relationship.object].map(part => part.trim().toLowerCase()).join('|');
+      if (!relationships.has(key)) {
+        relationships.set(key, {
+          subject: relationship.subject.trim(),
+          predicate: relationship.predicate.trim(),
+          object: relationship.object.trim()
+        });
+      }
+    }
+  }
+
+  return { entities: Array.from(entities.values()), relationships: Array.from(relationships.values()) };
+}
+
+export interface GraphCounts {
+  entities: number;
+  relationships: number;
+}
+
+// Removes the graph rows of one document, or all of the user's when no document is given
+export async function deleteGraph(clerkUserId: string, documentId?: string): Promise<GraphCounts> {
+  const [entities, relationships] = await Promise.all(
+    [config.knowledgeGraph.entitiesTable, config.knowledgeGraph.relationshipsTable].map(async table => {
+      let query = supabase.from(table).delete().eq('clerk_user_id', clerkUserId);
+      if (documentId) {
+        query = query.eq('data_id', documentId);
+      }
+
+      const { data, error } = await query.select('data_id');
+      if (error) {
+        throw new Error(`Failed to delete from ${table}: ${error.message}`);
+      }
+      return (data || []).length;
+    })
+  );
+
+  return { entities, relationships };
+}
+
+export async function countGraph(clerkUserId: string, documentId?: string): Promise<GraphCounts> {
+  const [entities, relationships] = await Promise.all(
+    [config.knowledgeGraph.entitiesTable, config.knowledgeGraph.relationshipsTable].map(async table => {
+      let query = supabase.from(table).select('data_id', { count: 'exact', head: true }).eq('clerk_user_id', clerkUserId);
+      if (documentId) {
+        query = query.eq('data_id', documentId);
+      }
+
+      const { count, error } = await query;
+      if (error) {
+        throw new Error(`Failed to count ${table}: ${error.message}`);
+      }
+      return count || 0;
+    })
+  );
+
+  return { entities, relationships };
+}
@@ -0,0 +1,107 @@
+import { config } from '../../config/config.js';
+import { invalidateUserCache } from '../cache.js';
+import { createDocument, deleteDocumentRecord } from '../documents.js';
+import { logger } from '../logger.js';
+import { UsageMeter } from '../usage-meter.js';
+import { getVectorStore } from '../vector-store/index.js';
+import { chunkText, DocumentFormat } from './chunker.js';
+import { extractGraph, saveGraph } from './graph-extractor.js';
+
+export * from './chunker.js';
+export * from './graph-extractor.js';
+
+export interface IngestRequest {
+  content: string;
+  title?: string;
+  format?: DocumentFormat;
+}
+
+export interface IngestResult {
+  documentId: string;
+  title: string;
+  chunks: number;
+  entities: number;
+  relationships: number;
+  // Steps that failed without losing the document, e.g. graph extraction
+  warnings: string[];
+}
+
+const MAX_TITLE_LENGTH = 120;
+
+/**
+ * Adds a document to everything retrieval reads: the documents table (keyword
+ * search), the vector store under the user's tenant, and the knowledge graph
+ * tables. The document row and its chunks are required; if the chunks cannot
+ * be stored the row is removed again. Graph extraction is best effort.
+ */
+export async function ingestDocument(clerkUserId: string, request: IngestRequest, usageMeter?: UsageMeter, onProgress?: (message: string) => void): Promise<IngestResult> {
+  const content = request.content.trim();
+  const format = request.format || 'text';
+
+  if (!content) {
+    throw new Error('Document content is empty');
+  }
+  if (content.length > config.ingestion.maxDocumentChars) {
+    throw new Error(`Document is too long (${content.length} characters, limit ${config.ingestion.maxDocumentChars})`);
+  }
+
+  const title = request.title?.trim() || deriveTitle(content, format);
+  const chunks = chunkText(content, {
+    chunkSize: config.ingestion.chunkSize,
+    chunkOverlap: config.ingestion.chunkOverlap,
+    format
+  });
+
+  onProgress?.('Saving document');
+  const document = await createDocument(clerkUserId, { title, content });
+  logger.info(`📥 Ingesting document: ${chunks.length} chunks`, { clerkUserId, documentId: document.id });
+
+  try {
+    onProgress?.(`Indexing ${chunks.length} chunks`);
+    await getVectorStore().upsert(clerkUserId, chunks.map((chunk, chunkIndex) => ({
+      content: chunk,
+      documentId: document.id,
+      chunkIndex
+    })));
+  } catch (error) {
+    logger.error('Vector indexing failed, removing the document', { documentId: document.id, error });
+    await deleteDocumentRecord(clerkUserId, document.id).catch(cleanupError =>
+      logger.error('Failed to remove document after indexing error', { documentId: document.id, error: cleanupError })
+    );
+    throw error;
+  }
+
+  const warnings: string[] = [];
+  let graph = { entities: [] as unknown[], relationships: [] as unknown[] };
+
+  try {
+    onProgress?.('Extracting knowledge graph');
+    const extracted = await extractGraph(chunks, usageMeter);
+    await saveGraph(clerkUserId, document.id, extracted);
+    graph = extracted;
+  } catch (error) {
+    logger.error('Knowledge graph extraction failed', { documentId: document.id, error });
+    warnings.push('Knowledge graph extraction failed; the document is searchable by keyword and similarity only.');
+  }
+
+  // Earlier answers and retrievals no longer reflect the user's data
+  await invalidateUserCache(clerkUserId);
+
+  logger.info(`✅ Ingested document: ${chunks.length} chunks, ${graph.entities.length} entities, ${graph.relationships.length} relationships`, { documentId: document.id });
+
+  return {
+    documentId: document.id,
+    title: document.title,
+    chunks: chunks.length,
+    entities: graph.entities.length,
+    relationships: graph.relationships.length,
+    warnings
+  };
+}
+
+// First markdown heading or first line, shortened
+function deriveTitle(content: string, format: DocumentFormat): string {
+  const heading = format === 'markdown' ? content.match(/^#{1,6}\s+(.+)$/m)?.[1] : undefined;
+  const line = (heading || content.split('\n').find(l => l.trim()) || 'Untitled').trim();
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
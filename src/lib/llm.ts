@@ -0,0 +1,314 @@
+import OpenAI from 'openai';
+import { config } from '../config/config.js';
+import { classifyError } from './errors.js';
+import { llmRequests } from './metrics.js';
+import { withSpan } from './tracing.js';
+import { TokenUsage } from './usage-meter.js';
+
+export type LlmRole = 'plan' | 'rephrase' | 'extract_entities' | 'refine' | 'extract_graph';
+export type LlmProvider = 'openai' | 'openai-compatible' | 'stub';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  maxTokens?: number;
+  json?: boolean;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface LlmClient {
+  readonly provider: LlmProvider;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResponse>;
+}
+
+/**
+ * Chat completions against OpenAI, or any server speaking the same API
+ * (Ollama, vLLM, ...) when a base URL is given.
+ */
+export class OpenAiLlmClient implements LlmClient {
+  private openai: OpenAI;
+
+  constructor(
+    readonly provider: 'openai' | 'openai-compatible',
+    readonly model: string,
+    options: { apiKey?: string; baseURL?: string }
+  ) {
+    this.openai = new OpenAI({
+      // Local servers usually ignore the key, but the SDK insists on one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_completion_tokens: request.maxTokens,
+      response_format: request.json ? { type: 'json_object' } : undefined
+    });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model,
+      usage: response.usage
+    };
+  }
+
+  async stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResponse> {
+    const stream = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_completion_tokens: request.maxTokens,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    let content = '';
+    let model = this.model;
+    let usage: TokenUsage | undefined;
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      // The final chunk carries usage for the whole stream and no choices
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    }
+
+    return { content, model, usage };
+  }
+}
+
+/**
+ * Deterministic offline client for development and tests. Returns canned,
+ * well-formed output for each pipeline role without any network access.
+ */
+export class StubLlmClient implements LlmClient {
+  readonly provider = 'stub' as const;
+
+  constructor(private role: LlmRole, readonly model: string = 'stub') {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const content = this.respond(request);
+    const inputTokens = request.messages.reduce((sum, m) => sum + Math.ceil(m.content.length / 4), 0);
+
+    return {
+      content,
+      model: this.model,
+      usage: { prompt_tokens: inputTokens, completion_tokens: Math.ceil(content.length / 4) }
+    };
+  }
+
+  async stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResponse> {
+    const response = await this.complete(request);
+    for (const word of response.content.split(/(?<=\s)/)) {
+      onDelta(word);
+    }
+    return response;
+  }
+
+  private respond(request: LlmRequest): string {
+    const lastMessage = request.messages[request.messages.length - 1]?.content || '';
+
+    switch (this.role) {
+      case 'plan':
+        return JSON.stringify({ tools: [{ name: 'database_query', priority: 1, reason: 'stub plan' }], strategy: 'parallel' });
+      case 'rephrase':
+        return JSON.stringify([]);
+      case 'extract_entities': {
+        // Capitalized words stand in for named entities
+        const entities = Array.from(new Set(lastMessage.match(/\b[A-Z][\p{L}\p{N}-]+/gu) || []));
+        return JSON.stringify({ entities });
+      }
+      case 'extract_graph': {
+        // Capitalized words as concepts, each linked to the next one mentioned
+        const names = Array.from(new Set(lastMessage.match(/\b[A-Z][\p{L}\p{N}-]+/gu) || [])).slice(0, 20);
+        return JSON.stringify({
+          entities: names.map(name => ({ name, type: 'concept' })),
+          relationships: names.slice(1).map((name, i) => ({ subject: names[i], predicate: 'mentioned_with', object: name }))
+        });
+      }
+      case 'refine': {
+        const markers = Array.from(new Set(lastMessage.match(/^\[\d+\]/gm) || [])).slice(0, 3);
+        return `Stub answer generated offline from ${markers.length} passages. ${markers.join(' ')}`.trim();
+      }
+    }
+  }
+}
+
+export interface EmbeddingClient {
+  readonly provider: LlmProvider;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class OpenAiEmbeddingClient implements EmbeddingClient {
+  private openai: OpenAI;
+
+  constructor(
+    readonly provider: 'openai' | 'openai-compatible',
+    readonly model: string,
+    options: { apiKey?: string; baseURL?: string }
+  ) {
+    this.openai = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.openai.embeddings.create({ model: this.model, input: texts });
+    return response.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
+
+/**
+ * Hashed bag-of-words vectors: deterministic and offline, and texts sharing
+ * words still land close together.
+ */
+export class StubEmbeddingClient implements EmbeddingClient {
+  readonly provider = 'stub' as const;
+
+  constructor(readonly model: string = 'stub', private dimensions: number = 256) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(this.dimensions).fill(0);
+      for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) {
+          hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        }
+        vector[hash % this.dimensions] += 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map(v => v / norm);
+    });
+  }
+}
+
+/**
+ * Wraps a client so each completion is a span carrying the role, models and
+ * token counts, and is counted by outcome. Prompts and responses are never
+ * recorded.
+ */
+class TracedLlmClient implements LlmClient {
+  constructor(private role: LlmRole, private inner: LlmClient) {}
+
+  get provider() {
+    return this.inner.provider;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  complete(request: LlmRequest): Promise<LlmResponse> {
+    return this.traced('complete', request, () => this.inner.complete(request));
+  }
+
+  stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResponse> {
+    return this.traced('stream', request, () => this.inner.stream(request, onDelta));
+  }
+
+  private traced(operation: string, request: LlmRequest, call: () => Promise<LlmResponse>): Promise<LlmResponse> {
+    const attributes = {
+      'gen_ai.system': this.inner.provider,
+      'gen_ai.operation.name': operation,
+      'gen_ai.request.model': this.inner.model,
+      'llm.role': this.role,
+      'llm.messages': request.messages.length
+    };
+
+    return withSpan(`llm ${this.role}`, attributes, async span => {
+      let response: LlmResponse;
+      try {
+        response = await call();
+      } catch (error) {
+        // A burst of rate_limit here is the provider throttling us
+        llmRequests.inc({ role: this.role, provider: this.inner.provider, outcome: classifyError(error) });
+        throw error;
+      }
+      llmRequests.inc({ role: this.role, provider: this.inner.provider, outcome: 'ok' });
+      span.setAttributes({
+        'gen_ai.response.model': response.model,
+        'gen_ai.usage.input_tokens': response.usage?.prompt_tokens || 0,
+        'gen_ai.usage.output_tokens': response.usage?.completion_tokens || 0
+      });
+      return response;
+    });
+  }
+}
+
+const clients = new Map<LlmRole, LlmClient>();
+let embeddingClient: EmbeddingClient | undefined;
+
+// The configured client for a pipeline role, created once and reused
+export function getLlmClient(role: LlmRole): LlmClient {
+  let client = clients.get(role);
+  if (!client) {
+    client = new TracedLlmClient(role, createLlmClient(role));
+    clients.set(role, client);
+  }
+  return client;
+}
+
+export function getEmbeddingClient(): EmbeddingClient {
+  if (!embeddingClient) {
+    const { provider, model } = config.llm.embedding;
+    switch (provider) {
+      case 'openai':
+        embeddingClient = new OpenAiEmbeddingClient('openai', model, { apiKey: config.llm.openaiApiKey });
+        break;
+      case 'openai-compatible':
+        embeddingClient = new OpenAiEmbeddingClient('openai-compatible', model, {
+          apiKey: config.llm.compatibleApiKey,
+          baseURL: config.llm.compatibleBaseUrl
+        });
+        break;
+      case 'stub':
+        embeddingClient = new StubEmbeddingClient(model || 'stub');
+        break;
+      default:
+        throw new Error(`Unknown embedding provider "${provider}"`);
+    }
+  }
+  return embeddingClient;
+}
+
+function createLlmClient(role: LlmRole): LlmClient {
+  const { provider, model } = config.llm.roles[role];
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAiLlmClient('openai', model, { apiKey: config.llm.openaiApiKey });
+    case 'openai-compatible':
+      return new OpenAiLlmClient('openai-compatible', model, {
+        apiKey: config.llm.compatibleApiKey,
+        baseURL: config.llm.compatibleBaseUrl
+      });
+    case 'stub':
+      return new StubLlmClient(role, model || 'stub');
+    default:
+      throw new Error(`Unknown LLM provider "${provider}" for role ${role}`);
+  }
+}
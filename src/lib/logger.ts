@@ -1,13 +1,86 @@
 import winston from 'winston';
 import { config } from '../config/config.js';
+import { getRequestContext } from './request-context.js';
+
+// Keys whose values are credentials, compared lowercase without separators
+const SECRET_KEYS = new Set(['token', 'accesstoken', 'refreshtoken', 'idtoken', 'authorization', 'cookie', 'password']);
+const SECRET_KEY_SUFFIXES = ['secret', 'apikey', 'password', 'servicerolekey'];
+// Keys holding user queries or document content, logged only with logContent on
+const CONTENT_KEYS = new Set(['query', 'queries', 'content', 'text', 'excerpt', 'answer', 'context', 'body', 'entities', 'entity', 'rawdata']);
+// Bearer credentials and JWTs that end up inside messages
+const SECRET_PATTERNS = [/Bearer\s+[\w~+/.=-]+/gi, /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g];
+const MAX_DEPTH = 6;
+
+export function redactString(value: string): string {
+  return SECRET_PATTERNS.reduce((text, pattern) => text.replace(pattern, '[REDACTED]'), value);
+}
+
+function isSecretKey(key: string): boolean {
+  const normalized = key.toLowerCase().replace(/[_-]/g, '');
+  return SECRET_KEYS.has(normalized) || SECRET_KEY_SUFFIXES.some(suffix => normalized.endsWith(suffix));
+}
+
+function redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), ...(config.logLevel === 'debug' && value.stack ? { stack: redactString(value.stack) } : {}) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1, seen));
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactField(key, item, depth + 1, seen)]));
+}
+
+function redactField(key: string, value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (value === undefined || value === null) return value;
+  if (isSecretKey(key)) return '[REDACTED]';
+  // Counts and flags under a content key, e.g. entities: 3, carry no content
+  if (!config.logContent && CONTENT_KEYS.has(key.toLowerCase()) && typeof value !== 'number' && typeof value !== 'boolean') {
+    return typeof value === 'string' ? `[REDACTED ${value.length} chars]` : '[REDACTED]';
+  }
+  return redactValue(value, depth, seen);
+}
+
+const redact = winston.format(info => {
+  const seen = new WeakSet<object>();
+  for (const key of Object.keys(info)) {
+    if (key === 'level' || key === 'timestamp') continue;
+    info[key] = key === 'message' || key === 'stack'
+      ? redactValue(info[key], 0, seen)
+      : redactField(key, info[key], 0, seen);
+  }
+  return info;
+});
+
+const requestContext = winston.format(info => {
+  const context = getRequestContext();
+  if (context) {
+    info.requestId = context.requestId;
+    if (context.clerkUserId && info.clerkUserId === undefined) info.clerkUserId = context.clerkUserId;
+    if (context.tool && info.tool === undefined) info.tool = context.tool;
+  }
+  return info;
+});
+
+const pretty = winston.format.printf(({ level, message, timestamp, requestId, ...meta }) => {
+  const details = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+  return `[${timestamp}] ${level.toUpperCase()}${requestId ? ` (${requestId})` : ''}: ${message}${details}`;
+});
 
 export const logger = winston.createLogger({
   level: config.logLevel,
   format: winston.format.combine(
+    winston.format.errors({ stack: config.logLevel === 'debug' }),
+    requestContext(),
+    redact(),
     winston.format.timestamp(),
-    winston.format.printf(({ level, message, timestamp }) => {
-      return `[${timestamp}] ${level.toUpperCase()}: ${message}`;
-    })
+    config.logFormat === 'pretty' ? pretty : winston.format.json()
   ),
   transports: [
     new winston.transports.Console(),
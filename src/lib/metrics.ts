@@ -0,0 +1,138 @@
+import { NextFunction, Request, Response } from 'express';
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+// Methods a client can send; anything else is counted as "other" to keep label values bounded
+const KNOWN_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'tools/call',
+  'resources/list',
+  'resources/read',
+  'resources/templates/list',
+  'prompts/list',
+  'prompts/get',
+  'completion/complete',
+  'logging/setLevel',
+  'notifications/initialized',
+  'notifications/cancelled',
+]);
+
+const SECONDS_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+const httpRequests = new Counter({
+  name: 'mcp_requests_total',
+  help: 'HTTP requests by JSON-RPC method and response status',
+  labelNames: ['method', 'status'] as const,
+  registers: [registry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: 'mcp_request_duration_seconds',
+  help: 'HTTP request latency by JSON-RPC method',
+  labelNames: ['method'] as const,
+  buckets: SECONDS_BUCKETS,
+  registers: [registry],
+});
+
+export const stageDuration = new Histogram({
+  name: 'pipeline_stage_duration_seconds',
+  help: 'Latency of each pipeline stage, e.g. context_finder plan or database_query vector',
+  labelNames: ['pipeline', 'stage'] as const,
+  buckets: SECONDS_BUCKETS,
+  registers: [registry],
+});
+
+// Zero-result searches land in the first bucket, which is what to alert on
+export const retrievalResults = new Histogram({
+  name: 'retrieval_results',
+  help: 'Results returned per search, by source',
+  labelNames: ['source'] as const,
+  buckets: [0, 1, 2, 5, 10, 20, 50],
+  registers: [registry],
+});
+
+export const llmRequests = new Counter({
+  name: 'llm_requests_total',
+  help: 'LLM calls by role, provider and outcome (ok or the error category)',
+  labelNames: ['role', 'provider', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const llmTokens = new Counter({
+  name: 'llm_tokens_total',
+  help: 'Tokens reported by LLM calls, by stage, model and direction',
+  labelNames: ['stage', 'model', 'direction'] as const,
+  registers: [registry],
+});
+
+export const llmCost = new Counter({
+  name: 'llm_cost_usd_total',
+  help: 'Estimated LLM cost in USD, by stage and model',
+  labelNames: ['stage', 'model'] as const,
+  registers: [registry],
+});
+
+export const quotaRejections = new Counter({
+  name: 'quota_rejections_total',
+  help: 'Requests refused before any work was done, by reason',
+  labelNames: ['reason'] as const,
+  registers: [registry],
+});
+
+export const authFailures = new Counter({
+  name: 'auth_failures_total',
+  help: 'Rejected requests by authentication failure reason',
+  labelNames: ['reason'] as const,
+  registers: [registry],
+});
+
+export const rateLimitRejections = new Counter({
+  name: 'rate_limit_rejections_total',
+  help: 'Requests refused by the rate limiter, by scope (user or ip), limit (rate or concurrency) and tier',
+  labelNames: ['scope', 'limit', 'tier'] as const,
+  registers: [registry],
+});
+
+export const cacheOperations = new Counter({
+  name: 'cache_operations_total',
+  help: 'Cache reads and writes by namespace and outcome (hit, miss, set or error)',
+  labelNames: ['namespace', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const cacheEvictions = new Counter({
+  name: 'cache_evictions_total',
+  help: 'Entries the in-memory cache dropped to stay within cache.maxEntries',
+  registers: [registry],
+});
+
+// Batches are counted once under "batch"
+function rpcMethod(body: any): string {
+  if (Array.isArray(body)) return 'batch';
+  if (!body || typeof body.method !== 'string') return 'none';
+  return KNOWN_METHODS.has(body.method) ? body.method : 'other';
+}
+
+// Scrapes and probes would drown out the MCP traffic
+const UNMEASURED_PATHS = new Set(['/metrics', '/healthz', '/readyz']);
+
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (UNMEASURED_PATHS.has(req.path)) return next();
+
+  const endTimer = httpRequestDuration.startTimer();
+  res.on('finish', () => {
+    const method = rpcMethod(req.body);
+    endTimer({ method });
+    httpRequests.inc({ method, status: String(res.statusCode) });
+  });
+  next();
+}
+
+export async function metricsHandler(req: Request, res: Response) {
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+}
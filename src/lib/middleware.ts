@@ -1,25 +1,36 @@
-import { Scalekit, TokenValidationOptions } from '@scalekit-sdk/node';
 import { NextFunction, Request, Response } from 'express';
-import { config } from '../config/config.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { logger } from './logger.js';
+import { getIdentityProvider, TokenVerificationError } from './identity/index.js';
+import { updateRequestContext } from './request-context.js';
+import { withSpan } from './tracing.js';
+import { authFailures } from './metrics.js';
+import { missingToolScopes } from '../tools/index.js';
 
-const scalekit = new Scalekit(config.skEnvUrl, config.skClientId, config.skClientSecret);
-const EXPECTED_AUDIENCE = config.expectedAudience;
 export const WWWHeader = {HeaderKey: 'WWW-Authenticate',HeaderValue: `Bearer realm="OAuth", resource_metadata="https://server.nexoraai.ch/.well-known/oauth-protected-resource"`}
 
+// RFC 6750 challenge telling the client which scopes to request
+const insufficientScopeChallenge = (scopes: string[]) =>
+    `Bearer realm="OAuth", error="insufficient_scope", scope="${scopes.join(' ')}", resource_metadata="https://server.nexoraai.ch/.well-known/oauth-protected-resource"`;
+
+// Operational endpoints the load balancer and Prometheus reach without a token
+const PUBLIC_PATHS = new Set(['/metrics', '/healthz', '/readyz']);
+
 // Extend Request type to include user info
 declare global {
     namespace Express {
         interface Request {
             clerkUserId?: string;
+            // Read by the MCP transport and passed to handlers as extra.authInfo
+            auth?: AuthInfo;
         }
     }
 }
 
 export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
     try {
-        // Allow public access to well-known endpoints
-        if (req.path.includes('.well-known')) {
+        // Allow public access to well-known endpoints, the Prometheus scrape and health probes
+        if (req.path.includes('.well-known') || PUBLIC_PATHS.has(req.path)) {
             return next();
         }
 
@@ -28,45 +39,75 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
         const token = authHeader?.startsWith('Bearer ')? authHeader.split('Bearer ')[1]?.trim(): null;
 
         if (!token) {
-            logger.warn('Missing Bearer token', {path: req.path,method: req.method,body: req.body});
-            throw new Error('Missing or invalid Bearer token');
+            logger.warn('Missing Bearer token', {path: req.path,method: req.method});
+            throw new TokenVerificationError('Missing or invalid Bearer token', 'missing_token');
         }
 
-        logger.info('Access token received', { token });
-
-        // Validate token without scope requirements
-        const validateTokenOptions: TokenValidationOptions = { audience: [EXPECTED_AUDIENCE] };
-        await scalekit.validateToken(token, validateTokenOptions);
+        // Signature, issuer, audience and expiry are checked locally against the issuer's cached keys.
+        // Scopes are checked per tool below, once we know which tool is called
+        const identityProvider = getIdentityProvider();
+        const verified = await withSpan('auth.verify_token', { 'auth.provider': identityProvider.name }, async span => {
+            const result = await identityProvider.verify(token);
+            span.setAttribute('auth.scopes', result.scopes);
+            return result;
+        });
+        const clerkUserId = verified.subject; // This is the Clerk user ID
         
-        // Extract Clerk user ID from the token
-        const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
-        const clerkUserId = payload.sub; // This is the Clerk user ID
-        
-        // Attach user ID to request for use in tools
+        // Attach user ID and verified claims to request for use in tools
         req.clerkUserId = clerkUserId;
+        updateRequestContext({ clerkUserId });
+        req.auth = {
+            token,
+            clientId: verified.clientId,
+            scopes: verified.scopes,
+            expiresAt: verified.expiresAt,
+            extra: { clerkUserId, claims: verified.claims }
+        };
         
-        // If this is a tool call, inject the clerkUserId into the context
-        if (req.body?.method === 'tools/call') {
-            if (!req.body.params) {
-                req.body.params = {};
-            }
-            if (!req.body.params.arguments) {
-                req.body.params.arguments = {};
-            }
-            if (!req.body.params.arguments.context) {
-                req.body.params.arguments.context = {};
+        // Reject tool calls the token's scopes don't cover before they reach the MCP server
+        const messages = Array.isArray(req.body) ? req.body : [req.body];
+        for (const message of messages) {
+            if (message?.method !== 'tools/call') continue;
+
+            const toolName = String(message.params?.name || '');
+            const missing = missingToolScopes(toolName, req.auth.scopes);
+            if (missing.length > 0) {
+                logger.warn('Insufficient scope for tool call', { clerkUserId, tool: toolName, missing });
+                authFailures.inc({ reason: 'insufficient_scope' });
+                return res.status(403).set(WWWHeader.HeaderKey, insufficientScopeChallenge(missing)).json({
+                    jsonrpc: '2.0',
+                    id: message.id ?? null,
+                    error: {
+                        code: -32003,
+                        message: `Insufficient scope: ${toolName} requires ${missing.join(', ')}`
+                    }
+                });
             }
-            
-            // Inject the clerkUserId into the tool arguments
-            req.body.params.arguments.context.clerkUserId = clerkUserId;
-            
-            logger.info(`Injected clerkUserId into tool context: ${clerkUserId}`);
+        }
+        
+        // Inject the clerkUserId into the context of every tool call, batched or not
+        const toolCalls = messages.filter(message => message?.method === 'tools/call');
+        for (const message of toolCalls) {
+            message.params ??= {};
+            message.params.arguments ??= {};
+            message.params.arguments.context ??= {};
+            message.params.arguments.context.clerkUserId = clerkUserId;
+        }
+        if (toolCalls.length > 0) {
+            logger.info('Injected clerkUserId into tool context', { clerkUserId, toolCalls: toolCalls.length });
         }
         
         logger.info('Authentication successful', { clerkUserId });
         next();
     } catch (err) {
-        logger.warn('Unauthorized request', { error: err instanceof Error ? err.message : String(err) });
+        // Keys that can't be fetched are our problem, not a bad token
+        if (!(err instanceof TokenVerificationError)) {
+            logger.error('Token verification unavailable', { error: err instanceof Error ? err.message : String(err) });
+            authFailures.inc({ reason: 'verifier_unavailable' });
+            return res.status(503).end();
+        }
+        logger.warn('Unauthorized request', { error: err.message });
+        authFailures.inc({ reason: err.reason });
         return res.status(401).set(WWWHeader.HeaderKey, WWWHeader.HeaderValue).end();
     }
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Partial answer text is batched so clients are not flooded with one notification per token
+const PARTIAL_FLUSH_CHARS = 200;
+
+// Logger name on the log notifications that carry partial answer text
+export const PARTIAL_ANSWER_LOGGER = 'context_finder.answer';
+
+/**
+ * Sends MCP progress notifications for one tool call. Does nothing when the
+ * client did not supply a progress token. Notifications go out on the
+ * transport of the request that made the call, through `extra`.
+ */
+export class ProgressReporter {
+  private progress = 0;
+  private pending = '';
+  private queue: Promise<void> = Promise.resolve();
+  // Set by done(); anything sent later would outlive the response
+  private closed = false;
+
+  constructor(private extra?: ToolExtra) {}
+
+  get enabled(): boolean {
+    return this.extra?._meta?.progressToken !== undefined;
+  }
+
+  stage(message: string): void {
+    if (!this.enabled) return;
+    this.send({
+      method: 'notifications/progress',
+      params: { progressToken: this.extra!._meta!.progressToken!, progress: ++this.progress, message }
+    });
+  }
+
+  // Buffer a chunk of the answer being written and send it once enough has accumulated
+  partial(delta: string): void {
+    this.pending += delta;
+    if (this.pending.length >= PARTIAL_FLUSH_CHARS) {
+      this.flush();
+    }
+  }
+
+  // Answer text is sent as a log message tied to the progress token, never as a progress message
+  flush(): void {
+    if (!this.pending || !this.enabled) return;
+    const text = this.pending;
+    this.pending = '';
+    this.send({
+      method: 'notifications/message',
+      params: { level: 'info', logger: PARTIAL_ANSWER_LOGGER, data: { progressToken: this.extra!._meta!.progressToken!, text } }
+    });
+  }
+
+  // Wait for every queued notification to be handed to the transport; later calls send nothing
+  async done(): Promise<void> {
+    this.flush();
+    this.closed = true;
+    await this.queue;
+  }
+
+  private send(notification: ServerNotification): void {
+    if (!this.enabled || !this.extra || this.closed) return;
+
+    const extra = this.extra;
+
+    // Chain sends so notifications arrive in order
+    this.queue = this.queue
+      .then(() => extra.sendNotification(notification))
+      .catch(error => {
+        logger.warn('Failed to send progress notification', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+}
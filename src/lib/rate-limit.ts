@@ -0,0 +1,254 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { config } from '../config/config.js';
+import { logger } from './logger.js';
+import { rateLimitRejections } from './metrics.js';
+
+export interface TokenBucketLimit {
+  capacity: number;
+  refillPerSec: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number;
+  // How long until enough tokens are back; 0 when allowed
+  retryAfterMs: number;
+}
+
+/**
+ * Storage behind the rate limiter. The in-memory store limits each instance
+ * on its own; a shared store (Redis, Postgres, ...) plugged in with
+ * `setRateLimitStore` makes the limits hold across instances.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  // Takes `cost` tokens from the key's bucket if it has them
+  take(key: string, limit: TokenBucketLimit, cost: number): Promise<TakeResult>;
+  // Puts back tokens taken for a request that turned out not to count, never above capacity
+  refund(key: string, limit: TokenBucketLimit, cost: number): Promise<void>;
+  // Claims one of `max` in-flight slots and returns its lease ID, or undefined when all are taken
+  acquire(key: string, max: number, leaseMs: number): Promise<string | undefined>;
+  release(key: string, leaseId: string): Promise<void>;
+}
+
+// Idle buckets are dropped once this many keys are tracked
+const MAX_TRACKED_BUCKETS = 10000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, { tokens: number; updatedAt: number; limit: TokenBucketLimit }>();
+  private leases = new Map<string, Map<string, number>>();
+
+  async take(key: string, limit: TokenBucketLimit, cost: number): Promise<TakeResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) || { tokens: limit.capacity, updatedAt: now, limit };
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSec);
+    bucket.updatedAt = now;
+    bucket.limit = limit;
+
+    const allowed = bucket.tokens >= cost;
+    if (allowed) {
+      bucket.tokens -= cost;
+    }
+    this.buckets.set(key, bucket);
+
+    if (this.buckets.size > MAX_TRACKED_BUCKETS) {
+      this.pruneFullBuckets(now);
+    }
+
+    return {
+      allowed,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil(((cost - bucket.tokens) / limit.refillPerSec) * 1000)
+    };
+  }
+
+  async refund(key: string, limit: TokenBucketLimit, cost: number): Promise<void> {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + cost);
+  }
+
+  async acquire(key: string, max: number, leaseMs: number): Promise<string | undefined> {
+    const now = Date.now();
+    const held = this.leases.get(key) || new Map<string, number>();
+    for (const [leaseId, expiresAt] of held) {
+      if (expiresAt <= now) held.delete(leaseId);
+    }
+
+    if (held.size >= max) {
+      this.leases.set(key, held);
+      return undefined;
+    }
+
+    const leaseId = randomUUID();
+    held.set(leaseId, now + leaseMs);
+    this.leases.set(key, held);
+    return leaseId;
+  }
+
+  async release(key: string, leaseId: string): Promise<void> {
+    const held = this.leases.get(key);
+    if (!held) return;
+
+    held.delete(leaseId);
+    if (held.size === 0) {
+      this.leases.delete(key);
+    }
+  }
+
+  // A bucket that has refilled completely is the same as no bucket
+  private pruneFullBuckets(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      const tokens = bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.limit.refillPerSec;
+      if (tokens >= bucket.limit.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+  logger.info(`Rate limit store set to ${next.name}`);
+}
+
+// JSON-RPC server error code for rejected requests, mirroring HTTP 429
+export const RATE_LIMITED_CODE = -32029;
+
+type LimitKind = 'rate' | 'concurrency';
+
+// Operational endpoints the load balancer and Prometheus poll; they are cheap and must not be throttled
+const UNLIMITED_PATHS = new Set(['/metrics', '/healthz', '/readyz']);
+
+// Concurrency rejections have no natural wait; the client should back off briefly
+const CONCURRENCY_RETRY_AFTER_MS = 1000;
+
+function toBucket(requestsPerMinute: number, burst: number): TokenBucketLimit {
+  return { capacity: burst, refillPerSec: requestsPerMinute / 60 };
+}
+
+// The plan named in the caller's token, or the default tier when it names none we know
+function resolveTier(req: Request): string {
+  const claims = req.auth?.extra?.claims as Record<string, unknown> | undefined;
+  const plan = claims?.[config.rateLimit.tierClaim];
+  return typeof plan === 'string' && config.rateLimit.tiers[plan] ? plan : config.rateLimit.defaultTier;
+}
+
+function messagesOf(req: Request): any[] {
+  return Array.isArray(req.body) ? req.body : [req.body];
+}
+
+function reject(req: Request, res: Response, kind: LimitKind, retryAfterMs: number, details: Record<string, unknown>) {
+  const retryAfterSec = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  const error = {
+    code: RATE_LIMITED_CODE,
+    message: kind === 'rate'
+      ? `Rate limit exceeded. Retry after ${retryAfterSec}s.`
+      : `Too many tool calls in progress. Retry after ${retryAfterSec}s.`,
+    data: { limit: kind, retryAfterMs, ...details }
+  };
+
+  // Batches get one error per request so clients can match them up
+  const body = Array.isArray(req.body)
+    ? req.body.filter(message => message?.id !== undefined).map(message => ({ jsonrpc: '2.0', id: message.id, error }))
+    : { jsonrpc: '2.0', id: req.body?.id ?? null, error };
+
+  return res.status(429).set('Retry-After', String(retryAfterSec)).json(body);
+}
+
+function ipBucket(): TokenBucketLimit {
+  const { requestsPerMinute, burst } = config.rateLimit.ip;
+  return toBucket(requestsPerMinute, burst);
+}
+
+/**
+ * Token bucket per client IP, charged before the access token is looked at
+ * so neither anonymous requests nor made-up tokens can hammer discovery or
+ * token verification. Once authentication succeeds the token is refunded in
+ * userRateLimitMiddleware and the user's own bucket applies instead.
+ */
+export async function ipRateLimitMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (!config.rateLimit.enabled || UNLIMITED_PATHS.has(req.path)) {
+    return next();
+  }
+
+  try {
+    const key = `ip:${req.ip}`;
+    const result = await store.take(key, ipBucket(), 1);
+    if (!result.allowed) {
+      logger.warn('Rate limited unauthenticated request', { ip: req.ip, retryAfterMs: result.retryAfterMs });
+      rateLimitRejections.inc({ scope: 'ip', limit: 'rate', tier: 'anonymous' });
+      return reject(req, res, 'rate', result.retryAfterMs, {});
+    }
+    res.locals.ipRateLimitKey = key;
+  } catch (error) {
+    // A broken limiter store must not take the server down with it
+    logger.error('Rate limit store failed, allowing request', { error: error instanceof Error ? error.message : String(error) });
+  }
+  next();
+}
+
+/**
+ * Runs after authentication. Every JSON-RPC message takes a token from the
+ * user's bucket, and each tools/call holds one of the tier's in-flight slots
+ * until the response is done.
+ */
+export async function userRateLimitMiddleware(req: Request, res: Response, next: NextFunction) {
+  const clerkUserId = req.auth?.extra?.clerkUserId;
+  if (!config.rateLimit.enabled || typeof clerkUserId !== 'string') {
+    return next();
+  }
+
+  // Authenticated traffic is limited per user, not per IP
+  const ipKey = res.locals.ipRateLimitKey;
+  if (typeof ipKey === 'string') {
+    await store.refund(ipKey, ipBucket(), 1)
+      .catch(error => logger.error('Failed to refund IP rate limit token', { error: error instanceof Error ? error.message : String(error) }));
+  }
+
+  const tier = resolveTier(req);
+  const limits = config.rateLimit.tiers[tier];
+  const messages = messagesOf(req).filter(message => message?.method);
+  const toolCalls = messages.filter(message => message.method === 'tools/call').length;
+  const leases: string[] = [];
+  const concurrencyKey = `inflight:${clerkUserId}`;
+
+  const releaseAll = () => Promise.all(leases.map(leaseId => store.release(concurrencyKey, leaseId)))
+    .catch(error => logger.error('Failed to release in-flight slot', { error: error instanceof Error ? error.message : String(error) }));
+
+  try {
+    if (messages.length > 0) {
+      const result = await store.take(`user:${clerkUserId}`, toBucket(limits.requestsPerMinute, limits.burst), messages.length);
+      if (!result.allowed) {
+        logger.warn('Rate limited user', { clerkUserId, tier, retryAfterMs: result.retryAfterMs });
+        rateLimitRejections.inc({ scope: 'user', limit: 'rate', tier });
+        return reject(req, res, 'rate', result.retryAfterMs, { tier });
+      }
+    }
+
+    for (let i = 0; i < toolCalls; i++) {
+      const leaseId = await store.acquire(concurrencyKey, limits.maxConcurrent, config.rateLimit.concurrencyLeaseMs);
+      if (!leaseId) {
+        await releaseAll();
+        logger.warn('Too many concurrent tool calls', { clerkUserId, tier, maxConcurrent: limits.maxConcurrent });
+        rateLimitRejections.inc({ scope: 'user', limit: 'concurrency', tier });
+        return reject(req, res, 'concurrency', CONCURRENCY_RETRY_AFTER_MS, { tier, maxConcurrent: limits.maxConcurrent });
+      }
+      leases.push(leaseId);
+    }
+  } catch (error) {
+    logger.error('Rate limit store failed, allowing request', { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  // close fires once the response is sent or the client goes away
+  if (leases.length > 0) {
+    res.once('close', () => {
+      void releaseAll();
+    });
+  }
+  next();
+}
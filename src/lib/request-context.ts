@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+export interface RequestContext {
+  requestId: string;
+  clerkUserId?: string;
+  // MCP tool or internal tool currently running
+  tool?: string;
+}
+
+const REQUEST_ID_HEADER = 'X-Request-Id';
+// Accept caller-supplied IDs only when they look like IDs, so logs can't be polluted through the header
+const VALID_REQUEST_ID = /^[\w.-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+// Adds fields to the current request's context, e.g. once the user is known
+export function updateRequestContext(fields: Partial<Omit<RequestContext, 'requestId'>>): void {
+  const context = storage.getStore();
+  if (context) Object.assign(context, fields);
+}
+
+// Runs `fn` in a child context, so the fields only apply to work started inside it
+export function withRequestContext<T>(fields: Partial<Omit<RequestContext, 'requestId'>>, fn: () => T): T {
+  const parent = storage.getStore();
+  return storage.run({ requestId: parent?.requestId || randomUUID(), ...parent, ...fields }, fn);
+}
+
+/**
+ * Gives every HTTP request a correlation ID (the caller's X-Request-Id when
+ * valid) that all logs written while handling it carry.
+ */
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  const header = req.get(REQUEST_ID_HEADER);
+  const requestId = header && VALID_REQUEST_ID.test(header) ? header : randomUUID();
+
+  res.set(REQUEST_ID_HEADER, requestId);
+  storage.run({ requestId }, next);
+}
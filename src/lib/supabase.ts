@@ -0,0 +1,27 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { createClient, PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { config } from '../config/config.js';
+import { withSpan } from './tracing.js';
+
+// Shared service-role client; all queries must filter by the caller's clerk user ID
+export const supabase = createClient(
+  config.supabase.url,
+  config.supabase.serviceRoleKey
+);
+
+// Calls a Postgres function inside a span named after it; errors are returned, not thrown, like client.rpc
+export async function tracedRpc(
+  client: SupabaseClient,
+  fn: string,
+  params: Record<string, any>
+): Promise<{ data: any; error: PostgrestError | null }> {
+  return withSpan(`supabase.rpc ${fn}`, { 'db.system': 'postgresql', 'db.operation': fn }, async span => {
+    const { data, error } = await client.rpc(fn, params);
+    if (error) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+    } else {
+      span.setAttribute('db.rows', Array.isArray(data) ? data.length : data == null ? 0 : 1);
+    }
+    return { data, error };
+  });
+}
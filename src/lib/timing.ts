@@ -0,0 +1,54 @@
+import { stageDuration } from './metrics.js';
+import { withSpan } from './tracing.js';
+
+export interface StageTiming {
+  calls: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+/**
+ * Wall-clock latency per pipeline stage. A stage timed several times (e.g.
+ * one vector query per variation) accumulates calls and total time. With a
+ * pipeline name each timed call is also a trace span, e.g. database_query.vector,
+ * and an observation of the stage latency histogram.
+ */
+export class StageTimer {
+  private stages = new Map<string, StageTiming>();
+
+  constructor(private pipeline?: string) {}
+
+  async time<T>(stage: string, fn: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      if (!this.pipeline) return await fn();
+
+      return await withSpan(`${this.pipeline}.${stage}`, {}, async span => {
+        const result = await fn();
+        // Result lists, or lists of lists for per-query stages
+        if (Array.isArray(result)) {
+          span.setAttribute('results.count', result.flat().length);
+        }
+        return result;
+      });
+    } finally {
+      this.record(stage, Date.now() - start);
+    }
+  }
+
+  record(stage: string, ms: number): void {
+    const timing = this.stages.get(stage) || { calls: 0, totalMs: 0, maxMs: 0 };
+    timing.calls++;
+    timing.totalMs += ms;
+    timing.maxMs = Math.max(timing.maxMs, ms);
+    this.stages.set(stage, timing);
+
+    if (this.pipeline) {
+      stageDuration.observe({ pipeline: this.pipeline, stage }, ms / 1000);
+    }
+  }
+
+  toJSON(): Record<string, StageTiming> {
+    return Object.fromEntries(this.stages);
+  }
+}
@@ -0,0 +1,104 @@
+import { Attributes, context, propagation, Span, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ConsoleSpanExporter, NodeTracerProvider, ParentBasedSampler, SimpleSpanProcessor, TraceIdRatioBasedSampler } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { NextFunction, Request, Response } from 'express';
+import { config } from '../config/config.js';
+import { logger } from './logger.js';
+import { getRequestContext } from './request-context.js';
+
+const tracer = trace.getTracer('nexora-context', config.serverVersion);
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Registers the global tracer provider. Until this runs, or when tracing is
+ * disabled, every span below is a no-op.
+ */
+export function initTracing(): void {
+  if (!config.tracing.enabled || provider) return;
+
+  const exporter = config.tracing.exporter === 'console'
+    ? new ConsoleSpanExporter()
+    : new OTLPTraceExporter(config.tracing.otlpEndpoint ? { url: config.tracing.otlpEndpoint } : {});
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: config.tracing.serviceName,
+      [ATTR_SERVICE_VERSION]: config.serverVersion,
+    }),
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(config.tracing.sampleRatio) }),
+    // Console output is for local debugging, where batching only delays it
+    spanProcessors: [config.tracing.exporter === 'console' ? new SimpleSpanProcessor(exporter) : new BatchSpanProcessor(exporter)],
+  });
+  provider.register();
+
+  logger.info(`🔭 Tracing enabled with ${config.tracing.exporter} exporter`);
+}
+
+// Flushes spans still buffered for export
+export async function shutdownTracing(): Promise<void> {
+  await provider?.shutdown();
+}
+
+/**
+ * Runs `fn` inside a child span of the current one. Errors are recorded on
+ * the span and rethrown; `fn` can add attributes such as result counts.
+ */
+export async function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : new Error(String(error)));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Root span per HTTP request; everything the request does is traced under it
+export function tracingMiddleware(req: Request, res: Response, next: NextFunction) {
+  // Continue the caller's trace when it sent a traceparent header
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(`HTTP ${req.method}`, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      'http.request.method': req.method,
+      'url.path': req.path,
+      'request.id': getRequestContext()?.requestId,
+    },
+  }, parent);
+
+  let ended = false;
+  const endSpan = () => {
+    if (ended) return;
+    ended = true;
+
+    // close without finish: the client went away before the response was sent
+    if (!res.writableFinished) {
+      span.setAttribute('http.aborted', true);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: 'Client closed the connection' });
+      span.end();
+      return;
+    }
+
+    span.setAttribute('http.response.status_code', res.statusCode);
+    // MCP method of single JSON-RPC requests, e.g. tools/call
+    if (req.body && !Array.isArray(req.body) && typeof req.body.method === 'string') {
+      span.setAttribute('rpc.method', req.body.method);
+      span.updateName(`HTTP ${req.method} ${req.body.method}`);
+    }
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  };
+
+  res.on('finish', endSpan);
+  res.on('close', endSpan);
+
+  context.with(trace.setSpan(parent, span), next);
+}
@@ -3,16 +3,27 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import express from 'express';
 import { logger } from './logger.js';
 
+/**
+ * Every request gets its own McpServer and transport. A server holds only the
+ * transport it was last connected to, so sharing one between overlapping
+ * requests would send one caller's notifications to another caller's stream.
+ */
 export const setupTransportRoutes = (
   app: express.Express,
-  server: McpServer
+  createServer: (req: express.Request) => McpServer
 ) => {
   app.post('/', async (req, res) => {
     try {
+      const server = createServer(req);
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: undefined, // stateless
       });
-      
+
+      res.on('close', () => {
+        transport.close().catch(error => logger.warn('Failed to close transport', { error: error instanceof Error ? error.message : String(error) }));
+        server.close().catch(error => logger.warn('Failed to close MCP server', { error: error instanceof Error ? error.message : String(error) }));
+      });
+
       // Connect the server to the transport
       await server.connect(transport);
       
@@ -33,4 +44,4 @@ export const setupTransportRoutes = (
       }
     }
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,97 @@
+import { config } from '../config/config.js';
+import { logger } from './logger.js';
+import { llmCost, llmTokens } from './metrics.js';
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+export interface StageUsage {
+  stage: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  // Offline stub client, see lib/llm.ts
+  'stub': { input: 0, output: 0 }
+};
+
+const warnedModels = new Set<string>();
+
+// Longest configured prefix wins, so dated snapshots like gpt-4o-mini-2024-07-18 match gpt-4o-mini
+export function getModelPrice(model: string): ModelPrice {
+  const prices: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICES, ...config.modelPrices };
+  const match = Object.keys(prices)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!match) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      logger.warn(`No price configured for model "${model}", recording zero cost`);
+    }
+    return { input: 0, output: 0 };
+  }
+  return prices[match];
+}
+
+/**
+ * Collects the token usage reported by every LLM call made while serving one
+ * request, broken down by pipeline stage and model.
+ */
+export class UsageMeter {
+  private entries = new Map<string, StageUsage>();
+
+  record(stage: string, model: string, usage?: TokenUsage | null): void {
+    const inputTokens = usage?.prompt_tokens || 0;
+    const outputTokens = usage?.completion_tokens || 0;
+    const price = getModelPrice(model);
+    const cost = (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+
+    const key = `${stage}:${model}`;
+    const entry = this.entries.get(key) || { stage, model, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    entry.calls++;
+    entry.inputTokens += inputTokens;
+    entry.outputTokens += outputTokens;
+    entry.cost += cost;
+    this.entries.set(key, entry);
+
+    llmTokens.inc({ stage, model, direction: 'input' }, inputTokens);
+    llmTokens.inc({ stage, model, direction: 'output' }, outputTokens);
+    llmCost.inc({ stage, model }, cost);
+  }
+
+  get stages(): StageUsage[] {
+    return Array.from(this.entries.values());
+  }
+
+  get models(): string[] {
+    return Array.from(new Set(this.stages.map(entry => entry.model)));
+  }
+
+  totals(): { inputTokens: number; outputTokens: number; totalTokens: number; cost: number } {
+    const inputTokens = this.stages.reduce((sum, entry) => sum + entry.inputTokens, 0);
+    const outputTokens = this.stages.reduce((sum, entry) => sum + entry.outputTokens, 0);
+    const cost = this.stages.reduce((sum, entry) => sum + entry.cost, 0);
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, cost };
+  }
+}
@@ -1,29 +1,95 @@
-import { createClient } from '@supabase/supabase-js';
+import { config } from '../config/config.js';
 import { logger } from './logger.js';
-
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
+import { supabase } from './supabase.js';
+import { StageUsage } from './usage-meter.js';
+import { ErrorCategory } from './errors.js';
+import { sleep } from './concurrency.js';
+import { withSpan } from './tracing.js';
+import { quotaRejections } from './metrics.js';
 
 export interface UsageData {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
+  // US dollars, unrounded
   cost: number;
   processingTime: number;
   toolsUsed: string[];
   confidence?: number;
+  modelsUsed?: string[];
+  stageUsage?: StageUsage[];
+  isError?: boolean;
+  errorCategory?: ErrorCategory;
 }
 
+// Why a request was refused, reported to the quota rejection metric
+export type QuotaRejectionReason = 'daily_limit' | 'monthly_limit' | 'no_requests' | 'user_not_found' | 'unavailable';
+
 export interface UsageCheck {
   canProceed: boolean;
   message?: string;
+  reason?: QuotaRejectionReason;
   availableToday: number;
   availableMonth: number;
   heroPoints: number;
 }
 
+export interface UsageReservation {
+  id: string;
+  clerkUserId: string;
+  useHeroPoints: boolean;
+  status: 'reserved' | 'committed' | 'refunded';
+}
+
+export interface ReservationResult {
+  reservation?: UsageReservation;
+  usage: UsageCheck;
+}
+
+const USAGE_WRITE_ATTEMPTS = 3;
+const USAGE_WRITE_RETRY_DELAY_MS = 250;
+const USAGE_QUEUE_FLUSH_INTERVAL_MS = 30000;
+const USAGE_QUEUE_MAX_SIZE = 1000;
+
+// PostgREST (PGRST...) and Postgres codes for requests that fail the same way every time,
+// e.g. an unknown column or RPC, a type mismatch or a missing required value
+const PERMANENT_ERROR_CODES = new Set(['42703', '42P01', '42883', '42804', '22P02', '23502', '23514']);
+
+interface QueuedUsageWrite {
+  description: string;
+  run: () => Promise<void>;
+}
+
+// Usage writes that failed all retries, replayed in the background
+const usageWriteQueue: QueuedUsageWrite[] = [];
+let flushTimer: NodeJS.Timeout | undefined;
+
+// Writes started by commitUsage, refundUsage and trackUsage that haven't settled yet
+const pendingUsageWrites = new Set<Promise<void>>();
+
+// A failed Supabase write, keeping the error code so permanent failures aren't retried
+export class UsageWriteError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message);
+    this.name = 'UsageWriteError';
+  }
+
+  get permanent(): boolean {
+    return !!this.code && (this.code.startsWith('PGRST') || PERMANENT_ERROR_CODES.has(this.code));
+  }
+}
+
+function toWriteError(error: { message: string; code?: string }): UsageWriteError {
+  return new UsageWriteError(error.message, error.code);
+}
+
+// The counters are numeric columns since tools can cost a fraction of a request.
+// PostgREST may hand them back as strings; two decimals are all they ever hold
+function toUnits(value: unknown): number {
+  const units = Number(value);
+  return Number.isFinite(units) ? Math.round(units * 100) / 100 : 0;
+}
+
 export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck> {
   try {
     // Direct table query instead of function
@@ -38,6 +104,7 @@ export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck>
       return {
         canProceed: false,
         message: 'Unable to verify your usage limits. Please try again.',
+        reason: 'unavailable',
         availableToday: 0,
         availableMonth: 0,
         heroPoints: 0
@@ -45,26 +112,26 @@ export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck>
     }
 
     if (!data) {
-      logger.warn('User not found in database:', clerkUserId);
+      logger.warn('User not found in database', { clerkUserId });
       return {
         canProceed: false,
         message: 'User account not found. Please contact support.',
+        reason: 'user_not_found',
         availableToday: 0,
         availableMonth: 0,
         heroPoints: 0
       };
     }
 
-    const availableToday = data.available_requests_today || 0;
-    const availableMonth = data.available_requests_month || 0;
-    const heroPoints = data.hero_points || 0;
+    const availableToday = toUnits(data.available_requests_today);
+    const availableMonth = toUnits(data.available_requests_month);
+    const heroPoints = toUnits(data.hero_points);
 
     logger.info('Usage check:', { 
       clerkUserId, 
       availableToday, 
       availableMonth, 
-      heroPoints,
-      rawData: data
+      heroPoints
     });
 
     // Check if user has any requests available
@@ -82,6 +149,7 @@ export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck>
       return {
         canProceed: false,
         message: 'You have used all your requests for today. Your daily limit will reset tomorrow, or you can use Hero Points if available.',
+        reason: 'daily_limit',
         availableToday,
         availableMonth,
         heroPoints
@@ -93,6 +161,7 @@ export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck>
       return {
         canProceed: false,
         message: 'You have used your monthly request limit. Please upgrade your plan for more requests or wait until next month.',
+        reason: 'monthly_limit',
         availableToday,
         availableMonth,
         heroPoints
@@ -103,6 +172,7 @@ export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck>
     return {
       canProceed: false,
       message: 'Unable to process your request. Please contact support.',
+      reason: 'no_requests',
       availableToday,
       availableMonth,
       heroPoints
@@ -113,6 +183,7 @@ export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck>
     return {
       canProceed: false,
       message: 'Unable to verify your usage limits. Please try again.',
+      reason: 'unavailable',
       availableToday: 0,
       availableMonth: 0,
       heroPoints: 0
@@ -120,11 +191,113 @@ export async function checkUsageLimit(clerkUserId: string): Promise<UsageCheck>
   }
 }
 
-export async function trackUsage(clerkUserId: string, endpoint: string, usage: UsageData): Promise<void> {
+/**
+ * Atomically takes `units` requests from the user's quota before any work is
+ * done. The `reserve_usage` RPC decrements inside a single statement and
+ * returns no row when nothing is left, so concurrent calls cannot overspend.
+ * Cheaper tools reserve a fraction of a request.
+ */
+export async function reserveUsage(clerkUserId: string, useHeroPoints: boolean = false, units: number = 1): Promise<ReservationResult> {
   try {
-    const costCents = Math.round(usage.cost * 100);
+    const { data, error } = await withSpan('usage.reserve', { 'usage.units': units, 'usage.hero_points': useHeroPoints }, async span => {
+      const response = await supabase
+        .rpc('reserve_usage', {
+          p_clerk_user_id: clerkUserId,
+          p_use_hero_points: useHeroPoints,
+          p_units: units
+        });
+      const reserved = Array.isArray(response.data) ? response.data[0] : response.data;
+      span.setAttribute('usage.reserved', Boolean(reserved?.reservation_id));
+      return response;
+    });
 
-    await supabase
+    if (error) {
+      logger.error('Reserve usage error', error);
+      return rejectReservation({
+        canProceed: false,
+        message: 'Unable to verify your usage limits. Please try again.',
+        reason: 'unavailable',
+        availableToday: 0,
+        availableMonth: 0,
+        heroPoints: 0
+      });
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+
+    if (!row?.reservation_id) {
+      // Nothing reserved: read the counters to explain why
+      const usage = await checkUsageLimit(clerkUserId);
+      return rejectReservation(usage.canProceed
+        ? { ...usage, canProceed: false, message: 'You have no requests available right now. Please try again later.', reason: 'no_requests' }
+        : usage);
+    }
+
+    logger.info('Usage reserved', { clerkUserId, reservationId: row.reservation_id, useHeroPoints, units });
+
+    return {
+      reservation: {
+        id: row.reservation_id,
+        clerkUserId,
+        useHeroPoints,
+        status: 'reserved'
+      },
+      usage: {
+        canProceed: true,
+        availableToday: toUnits(row.available_requests_today),
+        availableMonth: toUnits(row.available_requests_month),
+        heroPoints: toUnits(row.hero_points)
+      }
+    };
+
+  } catch (error) {
+    logger.error('Reserve usage failed:', error);
+    return rejectReservation({
+      canProceed: false,
+      message: 'Unable to verify your usage limits. Please try again.',
+      reason: 'unavailable',
+      availableToday: 0,
+      availableMonth: 0,
+      heroPoints: 0
+    });
+  }
+}
+
+function rejectReservation(usage: UsageCheck): ReservationResult {
+  quotaRejections.inc({ reason: usage.reason || 'no_requests' });
+  return { usage };
+}
+
+// The usage writes below run in the background so their retries never hold up a response
+
+export function commitUsage(reservation: UsageReservation): void {
+  if (reservation.status !== 'reserved') return;
+  reservation.status = 'committed';
+
+  startUsageWrite('usage.commit', `commit reservation ${reservation.id}`, async () => {
+    const { error } = await supabase
+      .rpc('commit_usage', { p_reservation_id: reservation.id });
+    if (error) throw toWriteError(error);
+  });
+}
+
+// Give the reserved request back to the user, e.g. after a failed or timed-out pipeline
+export function refundUsage(reservation: UsageReservation): void {
+  if (reservation.status !== 'reserved') return;
+  reservation.status = 'refunded';
+
+  startUsageWrite('usage.refund', `refund reservation ${reservation.id}`, async () => {
+    const { error } = await supabase
+      .rpc('refund_usage', { p_reservation_id: reservation.id });
+    if (error) throw toWriteError(error);
+    logger.info('Usage refunded', { clerkUserId: reservation.clerkUserId, reservationId: reservation.id });
+  });
+}
+
+// Cost is stored in exact dollars; rounding to cents would record 0 for most requests
+export function trackUsage(clerkUserId: string, endpoint: string, usage: UsageData): void {
+  startUsageWrite('usage.track', `track usage for ${endpoint}`, async () => {
+    const { error } = await supabase
       .from('requests')
       .insert({
         clerk_user_id: clerkUserId,
@@ -132,38 +305,185 @@ export async function trackUsage(clerkUserId: string, endpoint: string, usage: U
         input_tokens: usage.inputTokens,
         output_tokens: usage.outputTokens,
         total_tokens: usage.totalTokens,
-        cost_cents: costCents,
+        cost_usd: usage.cost,
         tools_used: usage.toolsUsed,
         processing_time_ms: usage.processingTime,
         confidence: usage.confidence,
-        is_error: false
+        models_used: usage.modelsUsed || [],
+        usage_breakdown: usage.stageUsage || [],
+        is_error: usage.isError ?? false,
+        error_category: usage.errorCategory || null
       });
+    if (error) throw toWriteError(error);
+    logger.info('Usage tracked', { clerkUserId, endpoint, isError: usage.isError ?? false });
+  });
+}
+
+export interface UsageSummary {
+  since: string;
+  requests: number;
+  errors: number;
+  byEndpoint: Record<string, number>;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // Over the requests that reported one; null when none did
+  averageConfidence: number | null;
+  // Tool name -> number of requests that used it
+  toolsUsed: Record<string, number>;
+  lastRequestAt: string | null;
+  // True when more rows matched than were read
+  truncated: boolean;
+}
 
-    logger.info('Usage tracked', { clerkUserId, endpoint });
+const USAGE_SUMMARY_MAX_ROWS = 1000;
 
-  } catch (error) {
-    logger.error('Track usage error', error);
+// Totals over the rows trackUsage wrote for the user since the given date, newest first
+export async function getUsageSummary(clerkUserId: string, since: Date): Promise<UsageSummary> {
+  const { data, error } = await supabase
+    .from('requests')
+    .select('endpoint, input_tokens, output_tokens, total_tokens, confidence, tools_used, is_error, created_at')
+    .eq('clerk_user_id', clerkUserId)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(USAGE_SUMMARY_MAX_ROWS + 1);
+
+  if (error) {
+    throw new Error(`Failed to read usage history: ${error.message}`);
+  }
+
+  const rows = (data || []).slice(0, USAGE_SUMMARY_MAX_ROWS);
+  const byEndpoint: Record<string, number> = {};
+  const toolsUsed: Record<string, number> = {};
+  const confidences: number[] = [];
+
+  for (const row of rows) {
+    byEndpoint[row.endpoint] = (byEndpoint[row.endpoint] || 0) + 1;
+    for (const tool of row.tools_used || []) {
+      toolsUsed[tool] = (toolsUsed[tool] || 0) + 1;
+    }
+    if (typeof row.confidence === 'number') {
+      confidences.push(row.confidence);
+    }
+  }
+
+  const sum = (key: 'input_tokens' | 'output_tokens' | 'total_tokens') => rows.reduce((total, row) => total + (row[key] || 0), 0);
+
+  return {
+    since: since.toISOString(),
+    requests: rows.length,
+    errors: rows.filter(row => row.is_error).length,
+    byEndpoint,
+    inputTokens: sum('input_tokens'),
+    outputTokens: sum('output_tokens'),
+    totalTokens: sum('total_tokens'),
+    averageConfidence: confidences.length > 0
+      ? Math.round(confidences.reduce((total, value) => total + value, 0) / confidences.length)
+      : null,
+    toolsUsed,
+    lastRequestAt: rows[0]?.created_at ?? null,
+    truncated: (data || []).length > USAGE_SUMMARY_MAX_ROWS
+  };
+}
+
+/**
+ * When the counters are next refilled, going by the reset schedule in
+ * config.usage (midnight UTC and the 1st of the month by default).
+ */
+export function nextUsageResets(now: Date = new Date(), schedule = config.usage): { daily: string; monthly: string } {
+  const hour = schedule.dailyResetHourUtc;
+
+  const daily = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour));
+  if (daily <= now) daily.setUTCDate(daily.getUTCDate() + 1);
+
+  const monthly = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), schedule.monthlyResetDay, hour));
+  if (monthly <= now) monthly.setUTCMonth(monthly.getUTCMonth() + 1);
+
+  return { daily: daily.toISOString(), monthly: monthly.toISOString() };
+}
+
+function startUsageWrite(spanName: string, description: string, run: () => Promise<void>): void {
+  const write = writeWithRetry(spanName, description, run)
+    .catch(error => {
+      logger.error(`Usage write failed (${description})`, { error: error instanceof Error ? error.message : String(error) });
+    })
+    .finally(() => pendingUsageWrites.delete(write));
+  pendingUsageWrites.add(write);
+}
+
+// Waits for the background usage writes started so far, e.g. before shutting down
+export async function settleUsageWrites(): Promise<void> {
+  while (pendingUsageWrites.size > 0) {
+    await Promise.all(pendingUsageWrites);
   }
 }
 
-export async function decrementUsage(clerkUserId: string, useHeroPoints: boolean = false): Promise<boolean> {
-  try {
-    const { data, error } = await supabase
-      .rpc('decrement_usage', {
-        p_clerk_user_id: clerkUserId,
-        p_use_hero_points: useHeroPoints
-      });
+/**
+ * Runs a usage write with a few quick retries. If it still fails it is queued
+ * and replayed in the background instead of being dropped, unless the
+ * database rejected it outright: replaying that can never succeed.
+ */
+async function writeWithRetry(spanName: string, description: string, run: () => Promise<void>): Promise<void> {
+  await withSpan(spanName, {}, async span => {
+    for (let attempt = 1; attempt <= USAGE_WRITE_ATTEMPTS; attempt++) {
+      try {
+        await run();
+        span.setAttribute('usage.attempts', attempt);
+        return;
+      } catch (error) {
+        if (error instanceof UsageWriteError && error.permanent) {
+          span.setAttributes({ 'usage.attempts': attempt, 'usage.dropped': true });
+          logger.error(`Usage write rejected, dropping it (${description})`, { code: error.code, error: error.message });
+          return;
+        }
+        logger.warn(`Usage write failed (${description}), attempt ${attempt}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        if (attempt < USAGE_WRITE_ATTEMPTS) {
+          await sleep(USAGE_WRITE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+    }
 
-    if (error || !data || data.length === 0) {
-      logger.error('Decrement usage error', error);
-      return false;
+    span.setAttributes({ 'usage.attempts': USAGE_WRITE_ATTEMPTS, 'usage.queued': true });
+
+    if (usageWriteQueue.length >= USAGE_QUEUE_MAX_SIZE) {
+      const dropped = usageWriteQueue.shift();
+      logger.error(`Usage write queue full, dropping oldest write (${dropped?.description})`);
     }
+    usageWriteQueue.push({ description, run });
+    logger.error(`Usage write queued for replay (${description})`, { queued: usageWriteQueue.length });
+    scheduleQueueFlush();
+  });
+}
+
+function scheduleQueueFlush(): void {
+  if (flushTimer) return;
+  flushTimer = setInterval(() => {
+    flushUsageWriteQueue().catch(error => logger.error('Usage queue flush failed', error));
+  }, USAGE_QUEUE_FLUSH_INTERVAL_MS);
+  // Never keep the process alive just to replay usage writes
+  flushTimer.unref();
+}
 
-    logger.info('Usage decremented', { clerkUserId, useHeroPoints });
-    return true;
+export async function flushUsageWriteQueue(): Promise<void> {
+  const pending = usageWriteQueue.splice(0, usageWriteQueue.length);
 
-  } catch (error) {
-    logger.error('Decrement usage error', error);
-    return false;
+  for (const write of pending) {
+    try {
+      await write.run();
+      logger.info(`Replayed queued usage write (${write.description})`);
+    } catch (error) {
+      if (error instanceof UsageWriteError && error.permanent) {
+        logger.error(`Queued usage write rejected, dropping it (${write.description})`, { code: error.code, error: error.message });
+        continue;
+      }
+      usageWriteQueue.push(write);
+    }
   }
-}
\ No newline at end of file
+
+  if (usageWriteQueue.length === 0 && flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = undefined;
+  }
+}
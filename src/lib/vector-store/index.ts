@@ -0,0 +1,33 @@
+import { config } from '../../config/config.js';
+import { getEmbeddingClient } from '../llm.js';
+import { supabase } from '../supabase.js';
+import { MemoryVectorStore } from './memory.js';
+import { PgVectorStore } from './pgvector.js';
+import { TracedVectorStore } from './traced.js';
+import { VectorStore } from './types.js';
+import { WeaviateVectorStore } from './weaviate.js';
+
+export * from './types.js';
+
+let vectorStore: VectorStore | undefined;
+
+// The configured vector store backend, created once and reused
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    vectorStore = new TracedVectorStore(createVectorStore(config.vectorStore.backend));
+  }
+  return vectorStore;
+}
+
+function createVectorStore(backend: string): VectorStore {
+  switch (backend) {
+    case 'weaviate':
+      return new WeaviateVectorStore(config.vectorStore.weaviate);
+    case 'pgvector':
+      return new PgVectorStore(supabase, getEmbeddingClient(), config.vectorStore.pgvector);
+    case 'memory':
+      return new MemoryVectorStore(getEmbeddingClient());
+    default:
+      throw new Error(`Unknown vector store backend "${backend}"`);
+  }
+}
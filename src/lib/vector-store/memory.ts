@@ -0,0 +1,80 @@
+import { EmbeddingClient } from '../llm.js';
+import { VectorChunk, VectorMatch, VectorSearchOptions, VectorStore } from './types.js';
+
+interface StoredChunk extends VectorChunk {
+  embedding: number[];
+}
+
+/**
+ * Process-local store for development and tests. Data is lost on restart.
+ */
+export class MemoryVectorStore implements VectorStore {
+  readonly name = 'memory';
+  private tenants = new Map<string, Map<string, StoredChunk>>();
+
+  constructor(private embeddings: EmbeddingClient) {}
+
+  async search(tenant: string, query: string, options: VectorSearchOptions): Promise<VectorMatch[]> {
+    const chunks = Array.from(this.tenants.get(tenant)?.values() || [])
+      .filter(chunk => !options.documentId || chunk.documentId === options.documentId);
+    if (chunks.length === 0) return [];
+
+    const [queryEmbedding] = await this.embeddings.embed([query]);
+
+    return chunks
+      .map(chunk => {
+        const similarity = cosineSimilarity(queryEmbedding, chunk.embedding);
+        return { content: chunk.content, documentId: chunk.documentId, score: similarity, distance: 1 - similarity };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+  }
+
+  async upsert(tenant: string, chunks: VectorChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+    const embeddings = await this.embeddings.embed(chunks.map(chunk => chunk.content));
+
+    const stored = this.tenants.get(tenant) || new Map<string, StoredChunk>();
+    chunks.forEach((chunk, index) => {
+      stored.set(`${chunk.documentId}:${chunk.chunkIndex}`, { ...chunk, embedding: embeddings[index] });
+    });
+    this.tenants.set(tenant, stored);
+  }
+
+  async deleteDocument(tenant: string, documentId: string): Promise<number> {
+    const stored = this.tenants.get(tenant);
+    if (!stored) return 0;
+
+    let deleted = 0;
+    for (const [key, chunk] of stored) {
+      if (chunk.documentId === documentId) {
+        stored.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async deleteTenant(tenant: string): Promise<void> {
+    this.tenants.delete(tenant);
+  }
+
+  async count(tenant: string, documentId?: string): Promise<number> {
+    const chunks = Array.from(this.tenants.get(tenant)?.values() || []);
+    return documentId ? chunks.filter(chunk => chunk.documentId === documentId).length : chunks.length;
+  }
+
+  async ping(): Promise<void> {}
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
@@ -0,0 +1,119 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { EmbeddingClient } from '../llm.js';
+import { VectorChunk, VectorMatch, VectorSearchOptions, VectorStore } from './types.js';
+
+export interface PgVectorStoreOptions {
+  table: string;
+  matchFunction: string;
+}
+
+/**
+ * Chunks stored in a Postgres table with a pgvector column on the Supabase
+ * database. Similarity search runs through an RPC taking
+ * (query_embedding, p_user_id, match_count, p_document_id) and returning
+ * rows of (content, document_id, similarity).
+ */
+export class PgVectorStore implements VectorStore {
+  readonly name = 'pgvector';
+
+  constructor(
+    private supabase: SupabaseClient,
+    private embeddings: EmbeddingClient,
+    private options: PgVectorStoreOptions
+  ) {}
+
+  async search(tenant: string, query: string, options: VectorSearchOptions): Promise<VectorMatch[]> {
+    const [embedding] = await this.embeddings.embed([query]);
+
+    const { data, error } = await this.supabase
+      .rpc(this.options.matchFunction, {
+        query_embedding: embedding,
+        p_user_id: tenant,
+        match_count: options.limit,
+        p_document_id: options.documentId ?? null
+      });
+
+    if (error) {
+      throw new Error(`pgvector search failed: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+      content: row.content || '',
+      documentId: row.document_id,
+      score: row.similarity ?? 0,
+      distance: row.similarity !== undefined ? 1 - row.similarity : undefined
+    }));
+  }
+
+  async upsert(tenant: string, chunks: VectorChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+    const embeddings = await this.embeddings.embed(chunks.map(chunk => chunk.content));
+
+    const { error } = await this.supabase
+      .from(this.options.table)
+      .upsert(chunks.map((chunk, index) => ({
+        clerk_user_id: tenant,
+        document_id: chunk.documentId,
+        chunk_index: chunk.chunkIndex,
+        content: chunk.content,
+        embedding: embeddings[index]
+      })), { onConflict: 'clerk_user_id,document_id,chunk_index' });
+
+    if (error) {
+      throw new Error(`pgvector upsert failed: ${error.message}`);
+    }
+  }
+
+  async deleteDocument(tenant: string, documentId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from(this.options.table)
+      .delete()
+      .eq('clerk_user_id', tenant)
+      .eq('document_id', documentId)
+      .select('chunk_index');
+
+    if (error) {
+      throw new Error(`pgvector delete failed: ${error.message}`);
+    }
+    return (data || []).length;
+  }
+
+  async deleteTenant(tenant: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.options.table)
+      .delete()
+      .eq('clerk_user_id', tenant);
+
+    if (error) {
+      throw new Error(`pgvector delete failed: ${error.message}`);
+    }
+  }
+
+  async count(tenant: string, documentId?: string): Promise<number> {
+    let query = this.supabase
+      .from(this.options.table)
+      .select('chunk_index', { count: 'exact', head: true })
+      .eq('clerk_user_id', tenant);
+
+    if (documentId) {
+      query = query.eq('document_id', documentId);
+    }
+
+    const { count, error } = await query;
+    if (error) {
+      throw new Error(`pgvector count failed: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  async ping(): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.options.table)
+      .select('chunk_index', { head: true })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`pgvector table unreachable: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { Attributes, Span } from '@opentelemetry/api';
+import { withSpan } from '../tracing.js';
+import { VectorChunk, VectorMatch, VectorSearchOptions, VectorStore } from './types.js';
+
+// Wraps a backend so every call is a span named after the operation, with result counts
+export class TracedVectorStore implements VectorStore {
+  constructor(private inner: VectorStore) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  search(tenant: string, query: string, options: VectorSearchOptions): Promise<VectorMatch[]> {
+    return this.traced('search', { 'vector_store.limit': options.limit, 'vector_store.document_filter': !!options.documentId }, async span => {
+      const matches = await this.inner.search(tenant, query, options);
+      span.setAttribute('results.count', matches.length);
+      return matches;
+    });
+  }
+
+  upsert(tenant: string, chunks: VectorChunk[]): Promise<void> {
+    return this.traced('upsert', { 'vector_store.chunks': chunks.length }, () => this.inner.upsert(tenant, chunks));
+  }
+
+  deleteDocument(tenant: string, documentId: string): Promise<number> {
+    return this.traced('delete_document', {}, async span => {
+      const deleted = await this.inner.deleteDocument(tenant, documentId);
+      span.setAttribute('vector_store.deleted', deleted);
+      return deleted;
+    });
+  }
+
+  deleteTenant(tenant: string): Promise<void> {
+    return this.traced('delete_tenant', {}, () => this.inner.deleteTenant(tenant));
+  }
+
+  count(tenant: string, documentId?: string): Promise<number> {
+    return this.traced('count', {}, () => this.inner.count(tenant, documentId));
+  }
+
+  ping(): Promise<void> {
+    return this.traced('ping', {}, () => this.inner.ping());
+  }
+
+  private traced<T>(operation: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+    return withSpan(`vector_store.${operation}`, { 'vector_store.backend': this.inner.name, ...attributes }, fn);
+  }
+}
@@ -0,0 +1,36 @@
+export interface VectorMatch {
+  content: string;
+  documentId: string;
+  score: number;
+  distance?: number;
+}
+
+export interface VectorChunk {
+  content: string;
+  documentId: string;
+  chunkIndex: number;
+}
+
+export interface VectorSearchOptions {
+  limit: number;
+  // Restrict the search to chunks of one document
+  documentId?: string;
+}
+
+/**
+ * Similarity search over document chunks. Every call is scoped to a tenant
+ * (the clerk user ID); implementations must never return another tenant's data.
+ */
+export interface VectorStore {
+  readonly name: string;
+  search(tenant: string, query: string, options: VectorSearchOptions): Promise<VectorMatch[]>;
+  upsert(tenant: string, chunks: VectorChunk[]): Promise<void>;
+  // Removes every chunk of the document and returns how many were deleted
+  deleteDocument(tenant: string, documentId: string): Promise<number>;
+  // Removes all of the tenant's data
+  deleteTenant(tenant: string): Promise<void>;
+  // Chunks stored for the tenant, or for one of its documents
+  count(tenant: string, documentId?: string): Promise<number>;
+  // Resolves when the backend is reachable, for readiness checks
+  ping(): Promise<void>;
+}
@@ -0,0 +1,144 @@
+import weaviate from 'weaviate-ts-client';
+import { VectorChunk, VectorMatch, VectorSearchOptions, VectorStore } from './types.js';
+
+export interface WeaviateStoreOptions {
+  host: string;
+  apiKey: string;
+  className: string;
+  openaiApiKey: string;
+}
+
+/**
+ * Multi-tenant Weaviate class with one tenant per user. Vectorization happens
+ * in Weaviate (nearText), so no embeddings are computed here.
+ */
+export class WeaviateVectorStore implements VectorStore {
+  readonly name = 'weaviate';
+  private client: any;
+  private className: string;
+
+  constructor(options: WeaviateStoreOptions) {
+    this.className = options.className;
+    this.client = (weaviate as any).client({
+      scheme: 'https',
+      host: options.host,
+      apiKey: new (weaviate as any).ApiKey(options.apiKey),
+      headers: {
+        'X-OpenAI-Api-Key': options.openaiApiKey
+      }
+    });
+  }
+
+  async search(tenant: string, query: string, options: VectorSearchOptions): Promise<VectorMatch[]> {
+    let builder = this.client
+      .graphql
+      .get()
+      .withClassName(this.className)
+      .withTenant(tenant)
+      .withNearText({ concepts: [query] })
+      .withLimit(options.limit)
+      .withFields('content document_id _additional { certainty distance }');
+
+    if (options.documentId) {
+      builder = builder.withWhere(documentFilter(options.documentId));
+    }
+
+    const result = await builder.do();
+
+    return (result.data?.Get?.[this.className] || []).map((doc: any) => ({
+      content: doc.content || '',
+      documentId: doc.document_id,
+      score: doc._additional?.certainty || 0,
+      distance: doc._additional?.distance
+    }));
+  }
+
+  async upsert(tenant: string, chunks: VectorChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+    await this.ensureTenant(tenant);
+
+    const result = await this.client.batch
+      .objectsBatcher()
+      .withObjects(...chunks.map(chunk => ({
+        class: this.className,
+        tenant,
+        properties: {
+          content: chunk.content,
+          document_id: chunk.documentId
+        }
+      })))
+      .do();
+
+    const failed = (result || []).filter((item: any) => item.result?.errors);
+    if (failed.length > 0) {
+      throw new Error(`Weaviate rejected ${failed.length} of ${chunks.length} chunks`);
+    }
+  }
+
+  async deleteDocument(tenant: string, documentId: string): Promise<number> {
+    if (!(await this.tenantExists(tenant))) return 0;
+
+    const result = await this.client.batch
+      .objectsBatchDeleter()
+      .withClassName(this.className)
+      .withTenant(tenant)
+      .withWhere(documentFilter(documentId))
+      .withOutput('minimal')
+      .do();
+
+    if (result?.results?.failed > 0) {
+      throw new Error(`Weaviate failed to delete ${result.results.failed} chunks of document ${documentId}`);
+    }
+    return result?.results?.successful || 0;
+  }
+
+  async deleteTenant(tenant: string): Promise<void> {
+    if (!(await this.tenantExists(tenant))) return;
+    await this.client.schema.tenantsDeleter(this.className, [tenant]).do();
+  }
+
+  async count(tenant: string, documentId?: string): Promise<number> {
+    if (!(await this.tenantExists(tenant))) return 0;
+
+    let builder = this.client
+      .graphql
+      .aggregate()
+      .withClassName(this.className)
+      .withTenant(tenant)
+      .withFields('meta { count }');
+
+    if (documentId) {
+      builder = builder.withWhere(documentFilter(documentId));
+    }
+
+    const result = await builder.do();
+    return result.data?.Aggregate?.[this.className]?.[0]?.meta?.count || 0;
+  }
+
+  async ping(): Promise<void> {
+    if (!(await this.client.misc.readyChecker().do())) {
+      throw new Error('Weaviate is not ready');
+    }
+    if (!(await this.client.schema.exists(this.className))) {
+      throw new Error(`Weaviate class ${this.className} does not exist`);
+    }
+  }
+
+  private async tenantExists(tenant: string): Promise<boolean> {
+    return this.client.schema.tenantsExists(this.className, tenant).do();
+  }
+
+  private async ensureTenant(tenant: string): Promise<void> {
+    if (!(await this.tenantExists(tenant))) {
+      await this.client.schema.tenantsCreator(this.className, [{ name: tenant }]).do();
+    }
+  }
+}
+
+function documentFilter(documentId: string) {
+  return {
+    path: ['document_id'],
+    operator: 'Equal',
+    valueText: documentId
+  };
+}
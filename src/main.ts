@@ -1,40 +1,64 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-
 import cors from 'cors';
 import express from 'express';
 import { config } from './config/config.js';
 import { oauthProtectedResourceHandler } from './lib/auth.js';
+import { healthzHandler, readyzHandler } from './lib/health.js';
 import { logger } from './lib/logger.js';
+import { metricsHandler, metricsMiddleware } from './lib/metrics.js';
+import { withTimeout } from './lib/concurrency.js';
+import { ipRateLimitMiddleware, userRateLimitMiddleware } from './lib/rate-limit.js';
 import { authMiddleware } from './lib/middleware.js';
+import { requestContextMiddleware } from './lib/request-context.js';
+import { initTracing, shutdownTracing, tracingMiddleware } from './lib/tracing.js';
 import { setupTransportRoutes } from './lib/transport.js';
-import { registerTools } from './tools/index.js';
+import { createMcpServer } from './server.js';
+import { settleUsageWrites } from './lib/usage.js';
+
+initTracing();
 
 const PORT = config.port;
-const server = new McpServer({ name: config.serverName, version: config.serverVersion });
+const SHUTDOWN_USAGE_WRITES_TIMEOUT_MS = 5000;
 
 const app = express();
+// Needed for the client IP behind a load balancer
+app.set('trust proxy', config.trustProxy);
 
 const allowAll = cors({
   origin: (origin, cb) => cb(null, true),
   credentials: false,
   methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Mcp-Protocol-Version', 'Content-Type', 'Authorization'],
-  exposedHeaders: ['WWW-Authenticate'],
+  allowedHeaders: ['Mcp-Protocol-Version', 'Content-Type', 'Authorization', 'X-Request-Id'],
+  exposedHeaders: ['WWW-Authenticate', 'X-Request-Id'],
   maxAge: 86400,
 });
 
 app.options(/.*/, allowAll);
 app.use(allowAll);
 
+app.use(requestContextMiddleware);
+app.use(tracingMiddleware);
+app.use(metricsMiddleware);
 app.use(express.json());
+app.use(ipRateLimitMiddleware);
 app.use(authMiddleware);
+app.use(userRateLimitMiddleware);
 
 app.get('/.well-known/oauth-protected-resource', oauthProtectedResourceHandler);
+app.get('/metrics', metricsHandler);
+app.get('/healthz', healthzHandler);
+app.get('/readyz', readyzHandler);
 
-setupTransportRoutes(app, server);
+setupTransportRoutes(app, createMcpServer);
 logger.info('Transport routes set up successfully');
 
-registerTools(server);
-logger.info('Registered tools successfully');
+app.listen(PORT, () => logger.info(`MCP server running on http://localhost:${PORT}`));
 
-app.listen(PORT, () => logger.info(`MCP server running on http://localhost:${PORT}`));
\ No newline at end of file
+// Give background usage writes a moment to land, then export buffered spans
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, () => {
+    withTimeout(settleUsageWrites(), SHUTDOWN_USAGE_WRITES_TIMEOUT_MS, 'Usage writes')
+      .catch(error => logger.warn('Usage writes did not settle before shutdown', { error: error instanceof Error ? error.message : String(error) }))
+      .then(() => shutdownTracing())
+      .finally(() => process.exit(0));
+  });
+}
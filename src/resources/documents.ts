@@ -0,0 +1,88 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, ListResourcesRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAuthenticatedUserId } from '../lib/auth.js';
+import { getDocument, listDocuments } from '../lib/documents.js';
+import { logger } from '../lib/logger.js';
+
+export const DOCUMENT_URI_PREFIX = 'nexora://documents/';
+
+export function documentUri(documentId: string): string {
+  return `${DOCUMENT_URI_PREFIX}${encodeURIComponent(documentId)}`;
+}
+
+const DOCUMENT_METADATA = {
+  title: 'Uploaded document',
+  description: 'A document the user uploaded to Nexora, as searched by context_finder',
+  mimeType: 'text/plain'
+};
+
+export function registerDocumentResources(server: McpServer) {
+  logger.debug('Registering document resources...');
+
+  server.registerResource(
+    'document',
+    // Listing is paginated below; the SDK's own resources/list ignores cursors
+    new ResourceTemplate(`${DOCUMENT_URI_PREFIX}{documentId}`, { list: undefined }),
+    DOCUMENT_METADATA,
+    async (uri, variables, extra) => {
+      const clerkUserId = getAuthenticatedUserId(extra);
+      if (!clerkUserId) {
+        throw new Error('User authentication required');
+      }
+
+      const documentId = decodeURIComponent(String(variables.documentId));
+      const document = await getDocument(clerkUserId, documentId);
+
+      // Someone else's document looks exactly like a missing one
+      if (!document) {
+        throw new Error(`Document not found: ${documentId}`);
+      }
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'text/plain',
+          text: document.content
+        }]
+      };
+    }
+  );
+
+  // Lists only the authenticated user's documents, one page per call
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    const clerkUserId = getAuthenticatedUserId(extra);
+    if (!clerkUserId) {
+      logger.warn('Document listing without an authenticated user');
+      return { resources: [] };
+    }
+
+    const offset = request.params?.cursor === undefined ? 0 : decodeCursor(request.params.cursor);
+    const { documents, nextOffset } = await listDocuments(clerkUserId, offset);
+    logger.info(`Listed ${documents.length} documents`, { clerkUserId, offset });
+
+    return {
+      resources: documents.map(document => ({
+        ...DOCUMENT_METADATA,
+        uri: documentUri(document.id),
+        name: document.title,
+        ...(document.createdAt && { description: `Uploaded ${document.createdAt}` })
+      })),
+      ...(nextOffset !== undefined && { nextCursor: encodeCursor(nextOffset) })
+    };
+  });
+
+  logger.debug('Successfully registered document resources');
+}
+
+// Cursors are opaque to clients; this one is the offset of the next page
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  const offset = Number(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+  return offset;
+}
@@ -0,0 +1,8 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { logger } from '../lib/logger.js';
+import { registerDocumentResources } from './documents.js';
+
+export function registerResources(server: McpServer) {
+  logger.debug('Registering resources');
+  registerDocumentResources(server);
+}
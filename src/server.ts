@@ -0,0 +1,18 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type express from 'express';
+import { config } from './config/config.js';
+import { registerResources } from './resources/index.js';
+import { registerTools } from './tools/index.js';
+
+// A fresh server per request, so tool handlers only ever talk to their own caller's transport
+// and tools/list only shows what the caller's token is scoped for
+export function createMcpServer(req: express.Request): McpServer {
+  const server = new McpServer(
+    { name: config.serverName, version: config.serverVersion },
+    // Partial answers go out as log notifications, which the SDK refuses to send without this
+    { capabilities: { logging: {} } }
+  );
+  registerTools(server, req.auth?.scopes);
+  registerResources(server);
+  return server;
+}
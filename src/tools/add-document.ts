@@ -0,0 +1,131 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { updateRequestContext } from '../lib/request-context.js';
+import { ProgressReporter } from '../lib/progress.js';
+import { UsageMeter } from '../lib/usage-meter.js';
+import { TOOLS } from './index.js';
+import { reserveUsage, commitUsage, refundUsage, trackUsage, UsageReservation } from '../lib/usage.js';
+import { classifyError } from '../lib/errors.js';
+import { ingestDocument } from '../lib/ingestion/index.js';
+import { documentUri } from '../resources/documents.js';
+import { config } from '../config/config.js';
+
+export function registerAddDocumentTool(server: McpServer) {
+  logger.debug('Registering add_document tool...');
+
+  const tool = server.tool(
+    'add_document',
+    TOOLS.add_document.description,
+    {
+      content: z.string().min(1, 'Content is required').max(config.ingestion.maxDocumentChars),
+      title: z.string().max(200).optional().describe('Document title; derived from the content when omitted'),
+      format: z.enum(['text', 'markdown']).optional().describe('How to split the content (default text)'),
+      context: z.record(z.any()).optional().describe('Optional context'),
+    },
+    async (params, extra) => {
+      const startTime = Date.now();
+      const { content, title, format, context } = params;
+      const progress = new ProgressReporter(extra);
+      const usageMeter = new UsageMeter();
+      let reservation: UsageReservation | undefined;
+
+      updateRequestContext({ tool: 'add_document' });
+      logger.info(`Add document received: ${content.length} characters`);
+
+      try {
+        const clerkUserId = context?.clerkUserId;
+        const usageStrategy = context?.usageStrategy;
+
+        if (!clerkUserId) {
+          logger.error('No user ID found in context');
+          return {
+            content: [{
+              type: 'text',
+              text: 'Error: User authentication required. Please ensure you are properly authenticated.'
+            }],
+          };
+        }
+
+        progress.stage('Checking usage limits');
+        const { reservation: reserved, usage: usageCheck } = await reserveUsage(
+          clerkUserId,
+          usageStrategy?.useHeroPoints || false,
+          TOOLS.add_document.usageWeight
+        );
+
+        if (!reserved) {
+          logger.warn('Usage limit exceeded', { clerkUserId });
+          return {
+            content: [{
+              type: 'text',
+              text: usageCheck.message || 'Usage limit exceeded. Please try again later.'
+            }],
+          };
+        }
+
+        reservation = reserved;
+
+        const result = await ingestDocument(clerkUserId, { content, title, format }, usageMeter, message => progress.stage(message));
+        await progress.done();
+
+        const usageTotals = usageMeter.totals();
+        commitUsage(reservation);
+        trackUsage(clerkUserId, 'add_document', {
+          inputTokens: usageTotals.inputTokens,
+          outputTokens: usageTotals.outputTokens,
+          totalTokens: usageTotals.totalTokens,
+          cost: usageTotals.cost,
+          processingTime: Date.now() - startTime,
+          toolsUsed: ['ingestion'],
+          modelsUsed: usageMeter.models,
+          stageUsage: usageMeter.stages
+        });
+
+        const summary = `Saved "${result.title}" as document ${result.documentId} (${result.chunks} chunks, ${result.entities} entities, ${result.relationships} relationships).`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: [summary, ...result.warnings].join('\n')
+          }],
+          structuredContent: {
+            ...result,
+            resourceUri: documentUri(result.documentId)
+          }
+        };
+
+      } catch (error) {
+        logger.error('Add document failed:', error);
+        // Flush what was queued and stop a still-running pipeline from sending after the response
+        await progress.done();
+
+        const errorCategory = classifyError(error);
+
+        if (reservation) {
+          const usageTotals = usageMeter.totals();
+          refundUsage(reservation);
+          trackUsage(reservation.clerkUserId, 'add_document', {
+            inputTokens: usageTotals.inputTokens,
+            outputTokens: usageTotals.outputTokens,
+            totalTokens: usageTotals.totalTokens,
+            cost: usageTotals.cost,
+            processingTime: Date.now() - startTime,
+            toolsUsed: ['ingestion'],
+            modelsUsed: usageMeter.models,
+            stageUsage: usageMeter.stages,
+            isError: true,
+            errorCategory
+          });
+        }
+
+        return {
+          content: [{ type: 'text', text: 'The document could not be saved. Please try again later.' }],
+        };
+      }
+    }
+  );
+
+  TOOLS.add_document.registeredTool = tool;
+  logger.debug('Successfully registered add_document tool');
+}
@@ -1,27 +1,51 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { logger } from '../lib/logger.js';
+import { updateRequestContext } from '../lib/request-context.js';
+import { withSpan } from '../lib/tracing.js';
+import { StageTimer } from '../lib/timing.js';
+import { ProgressReporter } from '../lib/progress.js';
+import { UsageMeter } from '../lib/usage-meter.js';
 import { TOOLS } from './index.js';
-import { checkUsageLimit, trackUsage, decrementUsage } from '../lib/usage.js';
+import { reserveUsage, commitUsage, refundUsage, trackUsage, UsageReservation } from '../lib/usage.js';
+import { classifyError, ErrorCategory } from '../lib/errors.js';
+import { withTimeout } from '../lib/concurrency.js';
+import { config } from '../config/config.js';
 import { Executor } from './internal/executor.js';
+import { Planner } from './internal/planner.js';
+import { depthParamSchema } from './internal/knowledge-graph.js';
 import { Refiner } from './internal/refiner.js';
 
+const USER_ERROR_MESSAGES: Record<ErrorCategory, string> = {
+  rate_limit: 'Our AI service is currently busy. Please try again in a few minutes.',
+  auth: 'Something went wrong. Please try again later.',
+  timeout: 'Connection issue detected. Please try again later.',
+  network: 'Connection issue detected. Please try again later.',
+  // Database errors, validation errors, etc.
+  internal: 'Something went wrong. Please try again later.'
+};
+
 export function registerContextFinderTool(server: McpServer) {
-  console.log('Registering context_finder tool...');
+  logger.debug('Registering context_finder tool...');
   
   const tool = server.tool(
     'context_finder',
     'Processes any query by automatically selecting and using the best available internal tools to provide comprehensive answers.',
     {
       query: z.string().min(1, 'Query is required'),
+      depth: depthParamSchema.optional(),
       context: z.record(z.any()).optional().describe('Optional context'),
     },
-    async (params) => {
+    async (params, extra) => {
       const startTime = Date.now();
-      const { query, context } = params;
+      const { query, depth, context } = params;
+      const progress = new ProgressReporter(extra);
+      const usageMeter = new UsageMeter();
+      let reservation: UsageReservation | undefined;
+      let toolsUsed: string[] = [];
       
-      logger.info(`Context Finder received: "${query}"`);
-      logger.info('Context received:', JSON.stringify(context, null, 2));
+      updateRequestContext({ tool: 'context_finder' });
+      logger.info('Context Finder received query', { query, contextKeys: Object.keys(context || {}) });
       
       try {
         // Extract user info from context - middleware injects it as context.clerkUserId
@@ -30,7 +54,7 @@ export function registerContextFinderTool(server: McpServer) {
         
         if (!clerkUserId) {
           logger.error('No user ID found in context');
-          logger.error('Available context keys:', Object.keys(context || {}));
+          logger.error('Available context keys', { contextKeys: Object.keys(context || {}) });
           return {
             content: [{
               type: 'text',
@@ -39,14 +63,16 @@ export function registerContextFinderTool(server: McpServer) {
           };
         }
         
-        logger.info(`Processing query for user: ${clerkUserId}`);
+        logger.info('Processing query', { clerkUserId });
         
-        // Step 0: Check usage limits before processing
-        logger.info('Checking usage limits...');
-        const usageCheck = await checkUsageLimit(clerkUserId);
+        // Step 0: Reserve one request from the user's quota before processing
+        logger.info('Reserving usage...');
+        progress.stage('Checking usage limits');
+        const { reservation: reserved, usage: usageCheck } = await reserveUsage(clerkUserId, usageStrategy?.useHeroPoints || false, TOOLS.context_finder.usageWeight);
         
-        if (!usageCheck.canProceed) {
-          logger.warn(`Usage limit exceeded for user: ${clerkUserId}`, {
+        if (!reserved) {
+          logger.warn('Usage limit exceeded', {
+            clerkUserId,
             availableToday: usageCheck.availableToday,
             availableMonth: usageCheck.availableMonth,
             heroPoints: usageCheck.heroPoints
@@ -60,65 +86,75 @@ export function registerContextFinderTool(server: McpServer) {
           };
         }
         
+        reservation = reserved;
         logger.info('Usage check passed', {
           availableToday: usageCheck.availableToday,
           availableMonth: usageCheck.availableMonth,
           heroPoints: usageCheck.heroPoints
         });
         
-        // Initialize the two remaining components
+        // Initialize the pipeline components
+        const planner = new Planner();
         const executor = new Executor();
         const refiner = new Refiner();
         
-        // Step 1: Create a fixed tool plan with only database_query
-        const toolPlan = {
-          tools: [{
-            name: 'database_query',
-            params: { 
-              query: query
-            },
-            priority: 1,
-            reason: 'Search user private data and uploaded documents'
-          }],
-          strategy: 'parallel' as const
-        };
-        
-        logger.info('📋 Using database_query tool');
-        
-        // Step 2: Executor - Execute the database_query tool
-        logger.info('🔧 Starting execution...');
-        const toolResults = await executor.executeTools(toolPlan, clerkUserId);
+        // Each step is a span under context_finder.pipeline and a stage latency observation
+        const timer = new StageTimer('context_finder');
+        const runPipeline = () => withSpan('context_finder.pipeline', {}, async pipelineSpan => {
+          // Step 1: Planner - Choose internal tools from the registry
+          logger.info('📋 Planning tools...');
+          progress.stage('Planning search');
+          const toolPlan = await timer.time('plan', () => planner.planTools(query, usageMeter, depth));
+          toolsUsed = toolPlan.tools.map(t => t.name);
+          pipelineSpan.setAttributes({ 'plan.tools': toolsUsed, 'plan.strategy': toolPlan.strategy });
+          
+          // Step 2: Executor - Execute the planned tools
+          logger.info('🔧 Starting execution...');
+          const toolResults = await timer.time('execute', () => executor.executeTools(toolPlan, clerkUserId, {
+            onProgress: message => progress.stage(message),
+            usageMeter
+          }));
+          pipelineSpan.setAttribute('tools.succeeded', toolResults.filter(r => r.success).length);
+          
+          // Nothing to refine - fail so the reserved request is refunded
+          if (toolResults.every(r => !r.success)) {
+            throw new Error(`All tools failed: ${toolResults.map(r => r.error).join('; ')}`);
+          }
+          
+          // Step 3: Refiner - Process and refine the results
+          logger.info('✨ Starting refinement...');
+          progress.stage('Writing answer');
+          // Stream partial answer chunks only to clients that asked for them
+          const streamAnswer = progress.enabled && context?.streamAnswer === true;
+          const refined = await timer.time('refine', () => refiner.refineResults(query, toolResults, {
+            onPartial: streamAnswer ? delta => progress.partial(delta) : undefined,
+            usageMeter
+          }));
+          pipelineSpan.setAttributes({ 'answer.confidence': refined.confidence, 'answer.citations': refined.citations.length });
+          return refined;
+        });
         
-        // Step 3: Refiner - Process and refine the results
-        logger.info('✨ Starting refinement...');
-        const refinedResponse = await refiner.refineResults(query, toolResults);
+        const refinedResponse = await withTimeout(runPipeline(), config.requestTimeoutMs, 'context_finder');
+        await progress.done();
         
         const executionTime = Date.now() - startTime;
-        
-        // Track usage with refined response data
-        const estimatedTokenUsage = {
-          prompt_tokens: Math.floor(query.length / 4) + 200, // Rough estimation
-          completion_tokens: Math.floor(refinedResponse.content.length / 4),
-          total_tokens: Math.floor((query.length + refinedResponse.content.length) / 4) + 200
-        };
-        
-        try {
-          await trackUsage(clerkUserId, 'context_finder', {
-            inputTokens: estimatedTokenUsage.prompt_tokens,
-            outputTokens: estimatedTokenUsage.completion_tokens,
-            totalTokens: estimatedTokenUsage.total_tokens,
-            cost: (estimatedTokenUsage.prompt_tokens * 0.00003 + estimatedTokenUsage.completion_tokens * 0.00006) / 1000,
-            processingTime: executionTime,
-            toolsUsed: ['database_query'],
-            confidence: refinedResponse.confidence
-          });
-          
-          // Decrement usage
-          await decrementUsage(clerkUserId, usageStrategy?.useHeroPoints || false);
-        } catch (usageError) {
-          logger.error('Usage tracking failed:', usageError);
-          // Don't fail the request due to usage tracking error
-        }
+        timer.record('total', executionTime);
+        
+        // Track usage with the tokens every LLM call actually reported
+        const usageTotals = usageMeter.totals();
+        
+        commitUsage(reservation);
+        trackUsage(clerkUserId, 'context_finder', {
+          inputTokens: usageTotals.inputTokens,
+          outputTokens: usageTotals.outputTokens,
+          totalTokens: usageTotals.totalTokens,
+          cost: usageTotals.cost,
+          processingTime: executionTime,
+          toolsUsed,
+          confidence: refinedResponse.confidence,
+          modelsUsed: usageMeter.models,
+          stageUsage: usageMeter.stages
+        });
         
         logger.info(`🎯 Context finding completed in ${executionTime}ms with ${refinedResponse.confidence}% confidence`);
         
@@ -127,47 +163,43 @@ export function registerContextFinderTool(server: McpServer) {
             type: 'text',
             text: refinedResponse.content
           }],
+          structuredContent: {
+            answer: refinedResponse.content,
+            confidence: refinedResponse.confidence,
+            citations: refinedResponse.citations
+          }
         };
         
       } catch (error) {
         logger.error('Context finder failed:', error);
-        
-        // Sanitize error messages - never expose internal errors to users
-        let userMessage = 'Something went wrong. Please try again later.';
-        
-        // Check for specific error patterns we want to handle
-        const errorString = error instanceof Error ? error.message : String(error);
-        
-        // Rate limit or quota errors
-        if (errorString.includes('429') || 
-            errorString.includes('rate limit') || 
-            errorString.includes('quota') ||
-            errorString.includes('Request too large') ||
-            errorString.includes('tokens per min')) {
-          userMessage = 'Our AI service is currently busy. Please try again in a few minutes.';
-        }
-        
-        // Authentication/permission errors
-        else if (errorString.includes('401') || 
-                 errorString.includes('403') || 
-                 errorString.includes('unauthorized')) {
-          userMessage = 'Something went wrong. Please try again later.';
-        }
-        
-        // Network/connection errors
-        else if (errorString.includes('ECONNREFUSED') || 
-                 errorString.includes('network') || 
-                 errorString.includes('timeout')) {
-          userMessage = 'Connection issue detected. Please try again later.';
+        // Flush what was queued and stop a still-running pipeline from sending after the response
+        await progress.done();
+        
+        const errorCategory = classifyError(error);
+        
+        // Failed requests don't count against the quota, but are still recorded
+        if (reservation) {
+          const usageTotals = usageMeter.totals();
+          refundUsage(reservation);
+          trackUsage(reservation.clerkUserId, 'context_finder', {
+            inputTokens: usageTotals.inputTokens,
+            outputTokens: usageTotals.outputTokens,
+            totalTokens: usageTotals.totalTokens,
+            cost: usageTotals.cost,
+            processingTime: Date.now() - startTime,
+            toolsUsed,
+            modelsUsed: usageMeter.models,
+            stageUsage: usageMeter.stages,
+            isError: true,
+            errorCategory
+          });
         }
         
-        // For all other errors, use generic message
-        // (This includes database errors, validation errors, etc.)
-        
+        // Sanitize error messages - never expose internal errors to users
         return {
           content: [{
             type: 'text',
-            text: userMessage
+            text: USER_ERROR_MESSAGES[errorCategory]
           }],
         };
       }
@@ -176,5 +208,5 @@ export function registerContextFinderTool(server: McpServer) {
   
   // Store the registered tool
   TOOLS.context_finder.registeredTool = tool;
-  console.log('Successfully registered context_finder tool');
+  logger.debug('Successfully registered context_finder tool');
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { updateRequestContext } from '../lib/request-context.js';
+import { eraseAccount } from '../lib/erasure.js';
+import { TOOLS } from './index.js';
+
+// Has to be passed verbatim so the tool is never run by accident
+const CONFIRMATION = 'DELETE ALL MY DATA';
+
+export function registerDeleteAccountDataTool(server: McpServer) {
+  logger.debug('Registering delete_account_data tool...');
+
+  const tool = server.tool(
+    'delete_account_data',
+    TOOLS.delete_account_data.description,
+    {
+      confirm: z.literal(CONFIRMATION).describe(`Must be exactly "${CONFIRMATION}"`),
+      context: z.record(z.any()).optional().describe('Optional context'),
+    },
+    async (params, extra) => {
+      const clerkUserId = params.context?.clerkUserId;
+      updateRequestContext({ tool: 'delete_account_data' });
+
+      if (!clerkUserId) {
+        logger.error('No user ID found in context');
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: User authentication required. Please ensure you are properly authenticated.'
+          }],
+        };
+      }
+
+      try {
+        const result = await eraseAccount(clerkUserId, `mcp:${extra.authInfo?.clientId || 'unknown'}`);
+
+        const text = result.verified
+          ? `Deleted all of your data: ${result.deleted.documents} documents, ${result.deleted.chunks} chunks, ${result.deleted.entities} entities, ${result.deleted.relationships} relationships.`
+          : 'Some of your data could not be deleted. Please try again or contact support.';
+
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: { ...result },
+          isError: !result.verified
+        };
+      } catch (error) {
+        logger.error('Account data erasure failed:', error);
+        return {
+          content: [{ type: 'text', text: 'Your data could not be deleted. Please try again later.' }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  TOOLS.delete_account_data.registeredTool = tool;
+  logger.debug('Successfully registered delete_account_data tool');
+}
@@ -0,0 +1,75 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { updateRequestContext } from '../lib/request-context.js';
+import { eraseDocument } from '../lib/erasure.js';
+import { DOCUMENT_URI_PREFIX } from '../resources/documents.js';
+import { TOOLS } from './index.js';
+
+export function registerDeleteDocumentTool(server: McpServer) {
+  logger.debug('Registering delete_document tool...');
+
+  const tool = server.tool(
+    'delete_document',
+    TOOLS.delete_document.description,
+    {
+      documentId: z.string().min(1).describe(`Document ID or ${DOCUMENT_URI_PREFIX}… resource URI`),
+      context: z.record(z.any()).optional().describe('Optional context'),
+    },
+    async (params, extra) => {
+      const clerkUserId = params.context?.clerkUserId;
+      updateRequestContext({ tool: 'delete_document' });
+
+      if (!clerkUserId) {
+        logger.error('No user ID found in context');
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: User authentication required. Please ensure you are properly authenticated.'
+          }],
+        };
+      }
+
+      const documentId = params.documentId.startsWith(DOCUMENT_URI_PREFIX)
+        ? decodeURIComponent(params.documentId.slice(DOCUMENT_URI_PREFIX.length))
+        : params.documentId;
+
+      try {
+        // Every store is cleared even without a documents row; all stores only ever match the caller's own data
+        const result = await eraseDocument(clerkUserId, documentId, `mcp:${extra.authInfo?.clientId || 'unknown'}`);
+        const { documents, chunks, entities, relationships } = result.deleted;
+
+        if (result.verified && documents + chunks + entities + relationships === 0) {
+          return {
+            content: [{ type: 'text', text: `Document ${documentId} was not found.` }],
+            structuredContent: { ...result }
+          };
+        }
+
+        const perStore = `${documents} document record, ${chunks} chunks, ${entities} entities, ${relationships} relationships`;
+        const text = result.verified
+          ? `Deleted document ${documentId} (${perStore}).`
+          : result.verificationError && result.failedStores.length === 0
+          ? `Deleted document ${documentId} (${perStore}), but the deletion could not be verified. Please try again.`
+          : `Document ${documentId} was only partly deleted (${perStore}` +
+            (result.failedStores.length > 0 ? `; failed: ${result.failedStores.join(', ')}` : '') +
+            '). Please try again.';
+
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: { ...result },
+          isError: !result.verified
+        };
+      } catch (error) {
+        logger.error('Delete document failed:', error);
+        return {
+          content: [{ type: 'text', text: 'The document could not be deleted. Please try again later.' }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  TOOLS.delete_document.registeredTool = tool;
+  logger.debug('Successfully registered delete_document tool');
+}
@@ -0,0 +1,86 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { updateRequestContext } from '../lib/request-context.js';
+import { checkUsageLimit, getUsageSummary, nextUsageResets } from '../lib/usage.js';
+import { TOOLS } from './index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reports the caller's remaining quota and what they used recently. Only
+ * reads the counters, so it never takes a request from the quota itself.
+ */
+export function registerGetUsageTool(server: McpServer) {
+  logger.debug('Registering get_usage tool...');
+
+  const tool = server.tool(
+    'get_usage',
+    TOOLS.get_usage.description,
+    {
+      days: z.number().int().min(1).max(90).optional().describe('How many days of recent requests to summarize (default 30)'),
+      context: z.record(z.any()).optional().describe('Optional context'),
+    },
+    async (params) => {
+      const { days = 30, context } = params;
+      const clerkUserId = context?.clerkUserId;
+      updateRequestContext({ tool: 'get_usage' });
+
+      if (!clerkUserId) {
+        logger.error('No user ID found in context');
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: User authentication required. Please ensure you are properly authenticated.'
+          }],
+        };
+      }
+
+      try {
+        const [limits, recent] = await Promise.all([
+          checkUsageLimit(clerkUserId),
+          getUsageSummary(clerkUserId, new Date(Date.now() - days * DAY_MS))
+        ]);
+
+        // Exhausted limits are a normal answer here; only a failed lookup is an error
+        if (limits.reason === 'unavailable' || limits.reason === 'user_not_found') {
+          return {
+            content: [{ type: 'text', text: limits.message || 'Your usage could not be loaded. Please try again later.' }],
+            isError: true
+          };
+        }
+
+        const resets = nextUsageResets();
+        const lines = [
+          `Available today: ${limits.availableToday}`,
+          `Available this month: ${limits.availableMonth}`,
+          `Hero Points: ${limits.heroPoints}`,
+          `Daily limit resets at ${resets.daily}, monthly limit at ${resets.monthly}`,
+          `Last ${days} days: ${recent.requests} requests (${recent.errors} failed), ${recent.totalTokens} tokens` +
+            (recent.averageConfidence !== null ? `, average confidence ${recent.averageConfidence}%` : '')
+        ];
+
+        return {
+          content: [{ type: 'text', text: lines.join('\n') }],
+          structuredContent: {
+            availableToday: limits.availableToday,
+            availableMonth: limits.availableMonth,
+            heroPoints: limits.heroPoints,
+            canProceed: limits.canProceed,
+            resets,
+            recent
+          }
+        };
+      } catch (error) {
+        logger.error('Get usage failed:', error);
+        return {
+          content: [{ type: 'text', text: 'Your usage could not be loaded. Please try again later.' }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  TOOLS.get_usage.registeredTool = tool;
+  logger.debug('Successfully registered get_usage tool');
+}
@@ -1,11 +1,49 @@
 import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { logger } from '../lib/logger.js';
 import { registerContextFinderTool } from './context-finder.js';
+import { registerSearchDocumentsTool } from './search-documents.js';
+import { registerAddDocumentTool } from './add-document.js';
+import { registerDeleteDocumentTool } from './delete-document.js';
+import { registerDeleteAccountDataTool } from './delete-account-data.js';
+import { registerGetUsageTool } from './get-usage.js';
 
 const toolsList = {
   context_finder: {
     name: 'context_finder',
     description: 'Processes any query by automatically selecting and using the best available internal tools to provide comprehensive answers.',
     requiredScopes: [],
+    // Requests taken from the user's quota per call
+    usageWeight: 1,
+  },
+  search_documents: {
+    name: 'search_documents',
+    description: 'Searches your documents and returns the ranked passages, query variations and per-source counts without writing an answer.',
+    requiredScopes: [],
+    usageWeight: 0.25,
+  },
+  add_document: {
+    name: 'add_document',
+    description: 'Saves text or markdown to your Nexora memory so later searches can find it. Returns the new document ID.',
+    requiredScopes: ['documents:write'],
+    usageWeight: 1,
+  },
+  delete_document: {
+    name: 'delete_document',
+    description: 'Permanently deletes one of your documents from keyword search, the knowledge graph and the vector store.',
+    requiredScopes: ['documents:write'],
+    usageWeight: 0,
+  },
+  delete_account_data: {
+    name: 'delete_account_data',
+    description: 'Permanently deletes all of your documents and everything derived from them. Cannot be undone.',
+    requiredScopes: ['documents:write', 'account:delete'],
+    usageWeight: 0,
+  },
+  get_usage: {
+    name: 'get_usage',
+    description: 'Shows how many requests you have left today and this month, your Hero Points, when the limits reset, and a summary of your recent requests.',
+    requiredScopes: [],
+    usageWeight: 0,
   },
 } as const;
 
@@ -16,6 +54,7 @@ export type ToolDefinition = {
   description: string;
   registeredTool?: RegisteredTool;
   requiredScopes: string[];
+  usageWeight: number;
 };
 
 export const TOOLS: { [K in ToolKey]: ToolDefinition & { name: K } } = Object.fromEntries(
@@ -25,9 +64,29 @@ export const TOOLS: { [K in ToolKey]: ToolDefinition & { name: K } } = Object.fr
   ])
 ) as any;
 
-export function registerTools(server: McpServer) {
-  console.log('Starting registerTools function...');
-  console.log('Available tools:', Object.keys(TOOLS));
-  registerContextFinderTool(server);
-  console.log('Finished registerTools function');
-}
\ No newline at end of file
+const registerFunctions: Record<ToolKey, (server: McpServer) => void> = {
+  context_finder: registerContextFinderTool,
+  search_documents: registerSearchDocumentsTool,
+  add_document: registerAddDocumentTool,
+  delete_document: registerDeleteDocumentTool,
+  delete_account_data: registerDeleteAccountDataTool,
+  get_usage: registerGetUsageTool,
+};
+
+// Registers only the tools the caller's token can call, so tools/list never shows the rest
+export function registerTools(server: McpServer, grantedScopes: string[] = []) {
+  const allowed = (Object.keys(registerFunctions) as ToolKey[])
+    .filter(toolName => missingToolScopes(toolName, grantedScopes).length === 0);
+  logger.debug('Registering tools', { tools: allowed });
+
+  for (const toolName of allowed) {
+    registerFunctions[toolName](server);
+  }
+}
+
+// Scopes the token lacks for the tool; empty for unknown tools, which the SDK rejects itself
+export function missingToolScopes(toolName: string, grantedScopes: string[]): string[] {
+  const tool = (TOOLS as Record<string, ToolDefinition>)[toolName];
+  if (!tool) return [];
+  return tool.requiredScopes.filter(scope => !grantedScopes.includes(scope));
+}
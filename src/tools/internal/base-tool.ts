@@ -1,3 +1,5 @@
+import type { UsageMeter } from '../../lib/usage-meter.js';
+
 export interface ToolConfig {
     name: string;
     priority: number;
@@ -5,6 +7,8 @@ export interface ToolConfig {
     focus: string[];
     reason: string;
     clerkUserId?: string;
+    onProgress?: (message: string) => void;
+    usageMeter?: UsageMeter;
     [key: string]: any; 
   }
   
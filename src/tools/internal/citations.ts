@@ -0,0 +1,61 @@
+import { ToolResult } from './executor.js';
+import { SearchResult, SearchSource, getDocumentId } from './search-result.js';
+import { documentUri } from '../../resources/documents.js';
+
+const EXCERPT_LENGTH = 500;
+
+export interface Citation {
+  marker: number;
+  tool: string;
+  source: SearchSource;
+  sources: SearchSource[];
+  excerpt: string;
+  score?: number;
+  documentId?: string;
+  // MCP resource the client can read to get the full source document
+  resourceUri?: string;
+  dataId?: string;
+  matchPosition?: number;
+  cited: boolean;
+}
+
+// Number every retrieved passage across all successful tool results, in the order the Refiner sees them
+export function collectCitations(results: ToolResult[]): { citations: Citation[]; passages: Map<number, SearchResult> } {
+  const citations: Citation[] = [];
+  const passages = new Map<number, SearchResult>();
+
+  for (const result of results) {
+    if (!result.success || !Array.isArray(result.data?.results)) continue;
+
+    for (const passage of result.data.results as SearchResult[]) {
+      const marker = citations.length + 1;
+      const documentId = getDocumentId(passage);
+      passages.set(marker, passage);
+      citations.push({
+        marker,
+        tool: result.tool,
+        source: passage.source,
+        sources: passage.fusion?.sources || [passage.source],
+        excerpt: passage.content.length > EXCERPT_LENGTH ? `${passage.content.slice(0, EXCERPT_LENGTH)}…` : passage.content,
+        score: passage.score,
+        documentId,
+        resourceUri: documentId ? documentUri(documentId) : undefined,
+        dataId: passage.metadata?.data_id,
+        matchPosition: passage.metadata?.match_position,
+        cited: false
+      });
+    }
+  }
+
+  return { citations, passages };
+}
+
+// Flag the citations whose [n] markers appear in the refined answer
+export function markCitedPassages(content: string, citations: Citation[]): Citation[] {
+  const used = new Set<number>();
+  for (const match of content.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    match[1].split(',').forEach(n => used.add(Number(n.trim())));
+  }
+
+  return citations.map(citation => ({ ...citation, cited: used.has(citation.marker) }));
+}
@@ -1,5 +1,12 @@
+import { z } from 'zod';
 import { getToolRegistry } from './tool-registry.js';
+import { ToolConfig, ToolResponse } from './base-tool.js';
+import { config } from '../../config/config.js';
 import { logger } from '../../lib/logger.js';
+import { UsageMeter } from '../../lib/usage-meter.js';
+import { mapWithConcurrency, sleep, TimeoutError, withTimeout } from '../../lib/concurrency.js';
+import { withRequestContext } from '../../lib/request-context.js';
+import { withSpan } from '../../lib/tracing.js';
 
 // Move interfaces here since we no longer import from orchestrator
 export interface Tool {
@@ -20,57 +27,169 @@ export interface ToolResult {
   data?: any;
   error?: string;
   executionTime: number;
+  attempts: number;
+  startedAt: number;
+  timedOut?: boolean;
 }
 
+export interface ExecutionOptions {
+  concurrency?: number;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  onProgress?: (message: string) => void;
+  usageMeter?: UsageMeter;
+}
+
+// The only params a planned tool call can pass on. The planner is an LLM, so
+// anything else it invents is dropped, invalid values fall back to the tool's
+// defaults and limits are capped at what the config allows
+const plannedParamsSchema = z.object({
+  query: z.string().optional().catch(undefined),
+  depth: z.union([
+    z.enum(['shallow', 'medium', 'deep']),
+    // A hop count, kept as a string like the named levels
+    z.coerce.number().int().min(1).transform(hops => String(Math.min(hops, config.retrieval.maxHops)))
+  ]).optional().catch(undefined),
+  focus: z.array(z.string()).optional().catch(undefined),
+  sources: z.array(z.enum(['keyword', 'knowledge_graph', 'vector'])).optional().catch(undefined),
+  topK: z.coerce.number().int().min(1).transform(topK => Math.min(topK, config.retrieval.maxTopK)).optional().catch(undefined),
+  maxNodes: z.coerce.number().int().min(1).transform(maxNodes => Math.min(maxNodes, config.retrieval.maxNodes)).optional().catch(undefined),
+  maxFanOut: z.coerce.number().int().min(1).transform(maxFanOut => Math.min(maxFanOut, config.retrieval.maxFanOut)).optional().catch(undefined)
+});
+
+function plannedParams(params: unknown): z.infer<typeof plannedParamsSchema> {
+  const parsed = plannedParamsSchema.safeParse(params ?? {});
+  // Undefined values would overwrite the defaults below
+  return parsed.success
+    ? Object.fromEntries(Object.entries(parsed.data).filter(([, value]) => value !== undefined))
+    : {};
+}
+
+const TRANSIENT_ERROR_PATTERN = /429|rate limit|timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|network|\b50[0234]\b/i;
+
 export class Executor {
-  async executeTools(plan: ToolPlan, clerkUserId?: string): Promise<ToolResult[]> {
-    const { tools } = plan;
-    const toolRegistry = getToolRegistry();
-    
-    // Since we only have one tool now, simplify the logic
-    logger.info(`🔧 Executing database_query tool`);
-    
-    const toolConfig = tools[0]; // We know there's only one tool
-    const startTime = Date.now();
-    const tool = toolRegistry.getTool(toolConfig.name);
-    
+  async executeTools(plan: ToolPlan, clerkUserId?: string, options: ExecutionOptions = {}): Promise<ToolResult[]> {
+    // Lower priority number runs first; keep plan order for ties
+    const tools = [...plan.tools].sort((a, b) => a.priority - b.priority);
+
+    logger.info(`🔧 Executing ${tools.length} tools (${plan.strategy}): ${tools.map(t => t.name).join(', ')}`);
+
+    if (plan.strategy === 'sequential') {
+      const results: ToolResult[] = [];
+      for (const tool of tools) {
+        // Later tools can build on what earlier ones found
+        results.push(await this.runTool(tool, clerkUserId, options, [...results]));
+      }
+      return results;
+    }
+
+    const concurrency = options.concurrency ?? config.toolConcurrency;
+    return mapWithConcurrency(tools, concurrency, tool => this.runTool(tool, clerkUserId, options, []));
+  }
+
+  private async runTool(toolPlan: Tool, clerkUserId: string | undefined, options: ExecutionOptions, previousResults: ToolResult[]): Promise<ToolResult> {
+    const timeoutMs = options.timeoutMs ?? config.toolTimeoutMs;
+    const maxRetries = options.maxRetries ?? config.toolMaxRetries;
+    const retryBaseDelayMs = options.retryBaseDelayMs ?? config.toolRetryBaseDelayMs;
+
+    const startedAt = Date.now();
+    const tool = getToolRegistry().getTool(toolPlan.name);
+
     if (!tool) {
-      return [{
-        tool: toolConfig.name,
+      return {
+        tool: toolPlan.name,
         success: false,
-        error: `Tool not found: ${toolConfig.name}`,
-        executionTime: Date.now() - startTime
-      }];
-    }
-    
-    try {
-      // Create config object that matches what base-tool expects
-      const config = {
-        clerkUserId,
-        name: toolConfig.name,
-        priority: toolConfig.priority,
-        reason: toolConfig.reason,
-        depth: 'medium',
-        focus: []
+        error: `Tool not found: ${toolPlan.name}`,
+        executionTime: Date.now() - startedAt,
+        attempts: 0,
+        startedAt
       };
-      
-      const result = await tool.execute(toolConfig.params.query || '', config);
-      
-      return [{
-        tool: toolConfig.name,
-        success: result.success,
-        data: result.data,
-        error: result.error,
-        executionTime: Date.now() - startTime
-      }];
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return [{
-        tool: toolConfig.name,
-        success: false,
-        error: errorMessage,
-        executionTime: Date.now() - startTime
-      }];
     }
+
+    // Create config object that matches what base-tool expects
+    const params = plannedParams(toolPlan.params);
+    const toolConfig: ToolConfig = {
+      depth: 'medium',
+      focus: [],
+      ...params,
+      clerkUserId,
+      name: toolPlan.name,
+      priority: toolPlan.priority,
+      reason: toolPlan.reason,
+      previousResults,
+      onProgress: options.onProgress,
+      usageMeter: options.usageMeter
+    };
+
+    let attempts = 0;
+    let lastError = '';
+    let timedOut = false;
+
+    while (attempts <= maxRetries) {
+      attempts++;
+      try {
+        // One span per attempt, so retries and timeouts show up in the trace
+        const result: ToolResponse = await withSpan(`tool ${toolPlan.name}`, { 'tool.name': toolPlan.name, 'tool.attempt': attempts }, async span => {
+          try {
+            const response = await withTimeout(
+              // Logs from inside the tool name it alongside the request ID
+              withRequestContext({ tool: toolPlan.name }, () => tool.execute(params.query || '', toolConfig)),
+              timeoutMs,
+              `Tool ${toolPlan.name}`
+            );
+            span.setAttribute('tool.success', response.success);
+            return response;
+          } catch (error) {
+            span.setAttribute('tool.timed_out', error instanceof TimeoutError);
+            throw error;
+          }
+        });
+
+        if (result.success || !this.isTransient(result.error)) {
+          return {
+            tool: toolPlan.name,
+            success: result.success,
+            data: result.data,
+            error: result.error,
+            executionTime: Date.now() - startedAt,
+            attempts,
+            startedAt
+          };
+        }
+
+        lastError = result.error || 'Unknown error';
+        timedOut = false;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        timedOut = error instanceof TimeoutError;
+
+        // A timed-out attempt can't be cancelled and keeps running, so a retry would race it
+        if (timedOut || !this.isTransient(lastError)) {
+          break;
+        }
+      }
+
+      if (attempts <= maxRetries) {
+        const delay = retryBaseDelayMs * 2 ** (attempts - 1) + Math.floor(Math.random() * retryBaseDelayMs);
+        logger.warn(`Tool ${toolPlan.name} failed (attempt ${attempts}), retrying in ${delay}ms`, { error: lastError });
+        await sleep(delay);
+      }
+    }
+
+    logger.error(`Tool ${toolPlan.name} failed after ${attempts} attempts`, { error: lastError });
+    return {
+      tool: toolPlan.name,
+      success: false,
+      error: lastError,
+      executionTime: Date.now() - startedAt,
+      attempts,
+      startedAt,
+      timedOut
+    };
   }
-}
\ No newline at end of file
+
+  private isTransient(error?: string): boolean {
+    return !!error && TRANSIENT_ERROR_PATTERN.test(error);
+  }
+}
@@ -0,0 +1,133 @@
+import { SearchResult, SearchSource, getDocumentId } from './search-result.js';
+
+// A ranked list as returned by one search call (one keyword search, one vector query, ...)
+export interface RankedList {
+  kind: RankedListKind;
+  results: SearchResult[];
+}
+
+export type RankedListKind = 'keyword' | 'knowledge_graph' | 'vector' | 'entity_vector';
+
+export interface FusionOptions {
+  topK?: number;
+  rrfK?: number;
+  weights?: Partial<Record<RankedListKind, number>>;
+  similarityThreshold?: number;
+}
+
+const DEFAULT_TOP_K = 15;
+const DEFAULT_RRF_K = 60;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+const DEFAULT_WEIGHTS: Record<RankedListKind, number> = {
+  keyword: 1.0,
+  knowledge_graph: 0.8,
+  vector: 1.0,
+  entity_vector: 0.7
+};
+
+interface Cluster {
+  documentId?: string;
+  tokens: Set<string>;
+  members: SearchResult[];
+  sources: Set<SearchSource>;
+  rrfScore: number;
+}
+
+/**
+ * Reciprocal rank fusion over several ranked lists. Near-duplicate passages
+ * (same document and mostly the same text) are merged into one result whose
+ * score is the sum of their weighted reciprocal ranks, normalized to 0..1.
+ */
+export function fuseResults(lists: RankedList[], options: FusionOptions = {}): SearchResult[] {
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+
+  // Score every entry by its rank inside its own list
+  const contributions: { result: SearchResult; score: number }[] = [];
+  for (const list of lists) {
+    const ranked = list.kind === 'vector' || list.kind === 'entity_vector'
+      ? [...list.results].sort((a, b) => (b.score || 0) - (a.score || 0))
+      : list.results;
+
+    ranked.forEach((result, index) => {
+      if (!result.content?.trim()) return;
+      contributions.push({ result, score: weights[list.kind] / (rrfK + index + 1) });
+    });
+  }
+
+  // Strongest contributions first so each cluster is seeded by its best match
+  contributions.sort((a, b) => b.score - a.score);
+
+  const clusters: Cluster[] = [];
+  for (const { result, score } of contributions) {
+    const documentId = getDocumentId(result);
+    const tokens = tokenize(result.content);
+    const cluster = clusters.find(c => isSameDocument(c.documentId, documentId) && isNearDuplicate(c, result.content, tokens, threshold));
+
+    if (cluster) {
+      cluster.members.push(result);
+      cluster.sources.add(result.source);
+      cluster.rrfScore += score;
+      cluster.documentId = cluster.documentId || documentId;
+      continue;
+    }
+
+    clusters.push({
+      documentId,
+      tokens,
+      members: [result],
+      sources: new Set([result.source]),
+      rrfScore: score
+    });
+  }
+
+  clusters.sort((a, b) => b.rrfScore - a.rrfScore);
+  const top = clusters.slice(0, topK);
+  const maxScore = top[0]?.rrfScore || 1;
+
+  return top.map(cluster => {
+    const primary = cluster.members[0];
+    // Keep the most complete text among the merged passages
+    const longest = cluster.members.reduce((best, m) => (m.content.length > best.content.length ? m : best), primary);
+
+    return {
+      source: primary.source,
+      content: longest.content,
+      score: cluster.rrfScore / maxScore,
+      metadata: { ...longest.metadata, ...primary.metadata },
+      fusion: {
+        sources: Array.from(cluster.sources),
+        rrfScore: cluster.rrfScore,
+        duplicates: cluster.members.length - 1
+      }
+    };
+  });
+}
+
+function isSameDocument(a?: string, b?: string): boolean {
+  return !a || !b || a === b;
+}
+
+function isNearDuplicate(cluster: Cluster, content: string, tokens: Set<string>, threshold: number): boolean {
+  const existing = cluster.members[0].content;
+  if (existing === content || existing.includes(content) || content.includes(existing)) {
+    return true;
+  }
+  return jaccard(cluster.tokens, tokens) >= threshold;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
@@ -1,20 +1,22 @@
+import { z } from 'zod';
 import { BaseTool, ToolConfig, ToolResponse } from '../base-tool.js';
 import { logger } from '../../../lib/logger.js';
-import OpenAI from 'openai';
-import { createClient } from '@supabase/supabase-js';
-import weaviate from "weaviate-ts-client";
+import { UsageMeter } from '../../../lib/usage-meter.js';
+import { getLlmClient } from '../../../lib/llm.js';
+import { supabase, tracedRpc } from '../../../lib/supabase.js';
+import { getVectorStore, VectorMatch, VectorStore } from '../../../lib/vector-store/index.js';
+import { SearchResult, SearchSource } from '../search-result.js';
+import { fuseResults, RankedList } from '../fusion.js';
+import { EntityRef, hopsForDepth, KnowledgeGraphStore, normalize, traverseKnowledgeGraph, TraversalOptions } from '../knowledge-graph.js';
+import { mapWithConcurrency } from '../../../lib/concurrency.js';
+import { StageTimer } from '../../../lib/timing.js';
+import { retrievalResults } from '../../../lib/metrics.js';
+import { cached, normalizeQuery } from '../../../lib/cache.js';
+import { config as appConfig } from '../../../config/config.js';
 
-// Configuration variables you asked for
-const WEAVIATE_CLASS_NAME = process.env.WEAVIATE_CLASS_NAME!;
-const OPENAI_MODEL_REPHRASE = process.env.OPENAI_MODEL_REPHRASE!;
-const EXTRACT_ENTITIES_MODEL = process.env.EXTRACT_ENTITIES_MODEL!;
+const ALL_SOURCES: SearchSource[] = ['keyword', 'knowledge_graph', 'vector'];
 
-interface SearchResult {
-  source: 'keyword' | 'knowledge_graph' | 'vector';
-  content: string;
-  metadata?: any;
-  score?: number;
-}
+const rephrasedQueriesSchema = z.array(z.string());
 
 interface EntityWithDocument {
   entity: string;
@@ -33,32 +35,19 @@ export class DatabaseQueryTool extends BaseTool {
     'data not available elsewhere'
   ];
   
-  private openai: OpenAI;
   private supabase: any;
-  private weaviateClient: any;
+  private vectorStore: VectorStore;
   
   constructor() {
     super();
-    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    
-    this.supabase = createClient(
-      process.env.SUPABASE_URL || '',
-      process.env.SUPABASE_SERVICE_ROLE_KEY || ''
-    );
+    this.supabase = supabase;
     
-    this.weaviateClient = (weaviate as any).client({
-      scheme: 'https',
-      host: process.env.WEAVIATE_HOST!,
-      apiKey: new (weaviate as any).ApiKey(process.env.WEAVIATE_API_KEY!),
-      headers: {
-        'X-OpenAI-Api-Key': process.env.OPENAI_APIKEY!
-      }
-    });
+    this.vectorStore = getVectorStore();
   }
   
   async execute(query: string, config: ToolConfig): Promise<ToolResponse> {
     try {
-      logger.info(`💾 Database query: ${query}`);
+      logger.info('💾 Database query', { query });
       
       const clerkUserId = config.clerkUserId;
       
@@ -66,46 +55,30 @@ export class DatabaseQueryTool extends BaseTool {
         throw new Error('clerk_user_id is required for database queries');
       }
       
-      // Step 1: Rephrase query for better coverage
-      const rephrased = await this.rephraseQuery(query);
-      const allQueries = [query, ...rephrased];
-      logger.info(`📝 Generated ${allQueries.length} query variations`);
+      // How far the knowledge graph search follows relationships
+      const traversal: TraversalOptions = {
+        maxHops: hopsForDepth(config.depth),
+        maxFanOut: config.maxFanOut || appConfig.retrieval.maxFanOut,
+        maxNodes: config.maxNodes || appConfig.retrieval.maxNodes
+      };
       
-      // Step 2: Execute all three search types in parallel
-      const [keywordResults, knowledgeGraphResults, vectorResults] = await Promise.all([
-        this.keywordSearch(query, clerkUserId),
-        this.knowledgeGraphSearch(query, clerkUserId),
-        this.vectorSearch(allQueries, clerkUserId)
-      ]);
+      // Callers may restrict which searches run; all of them by default
+      const sources: SearchSource[] = Array.isArray(config.sources) && config.sources.length > 0
+        ? ALL_SOURCES.filter(source => config.sources.includes(source))
+        : ALL_SOURCES;
       
-      // Step 3: Get additional vector searches for knowledge graph entities with their document IDs
-      const entityVectorResults = await this.searchEntitiesInVector(
-        knowledgeGraphResults.entitiesWithDocuments || [],
-        clerkUserId
+      // Same user, same question, same parameters: reuse the earlier retrieval
+      const data = await cached(
+        'retrieval',
+        clerkUserId,
+        [normalizeQuery(query), traversal, config.topK ?? null, sources],
+        { ttlMs: appConfig.cache.retrievalTtlMs, shouldCache: data => data.totalResults > 0 },
+        () => this.retrieve(query, clerkUserId, config, traversal, new Set(sources))
       );
       
-      // Step 4: Combine all results
-      const allResults: SearchResult[] = [
-        ...keywordResults,
-        ...knowledgeGraphResults.results,
-        ...vectorResults,
-        ...entityVectorResults
-      ];
-      
-      logger.info(`📊 Total results: ${allResults.length} from all sources`);
-      
       return {
         success: true,
-        data: {
-          results: allResults,
-          queryVariations: allQueries,
-          totalResults: allResults.length,
-          sources: {
-            keyword: keywordResults.length,
-            knowledgeGraph: knowledgeGraphResults.results.length,
-            vector: vectorResults.length + entityVectorResults.length
-          }
-        }
+        data
       };
       
     } catch (error) {
@@ -118,7 +91,88 @@ export class DatabaseQueryTool extends BaseTool {
     }
   }
   
-  private async rephraseQuery(query: string): Promise<string[]> {
+  private async retrieve(query: string, clerkUserId: string, config: ToolConfig, traversal: TraversalOptions, sources: Set<SearchSource>) {
+    const reportProgress = config.onProgress || (() => {});
+    const timer = new StageTimer('database_query');
+    const startTime = Date.now();
+    
+    // Step 1: Rephrase query for better coverage (only the vector search uses the variations)
+    let allQueries = [query];
+    if (sources.has('vector')) {
+      reportProgress('Rephrasing query');
+      const rephrased = await timer.time('rephrase', () => cached(
+        'rephrase',
+        clerkUserId,
+        [normalizeQuery(query)],
+        { ttlMs: appConfig.cache.llmTtlMs, shouldCache: variations => variations.length > 0 },
+        () => this.rephraseQuery(query, config.usageMeter)
+      ));
+      allQueries = [query, ...rephrased];
+      logger.info(`📝 Generated ${allQueries.length} query variations`);
+    }
+    
+    // Step 2: Execute the selected search types in parallel
+    reportProgress('Searching documents');
+    const [keywordResults, knowledgeGraphResults, vectorResults] = await Promise.all([
+      sources.has('keyword')
+        ? timer.time('keyword', () => this.keywordSearch(query, clerkUserId))
+        : Promise.resolve([]),
+      sources.has('knowledge_graph')
+        ? timer.time('knowledge_graph', () => this.knowledgeGraphSearch(query, clerkUserId, config.usageMeter, traversal, timer))
+        : Promise.resolve({ results: [], entities: [], entitiesWithDocuments: [] }),
+      sources.has('vector')
+        ? timer.time('vector', () => this.vectorSearch(allQueries, clerkUserId))
+        : Promise.resolve([])
+    ]);
+    
+    // Step 3: Get additional vector searches for knowledge graph entities with their document IDs
+    const entityCount = knowledgeGraphResults.entitiesWithDocuments?.length || 0;
+    if (entityCount > 0) {
+      reportProgress(`Expanding ${entityCount} ${entityCount === 1 ? 'entity' : 'entities'}`);
+    }
+    const entityVectorResults = sources.has('vector')
+      ? await timer.time('entity_vector', () => this.searchEntitiesInVector(
+        knowledgeGraphResults.entitiesWithDocuments || [],
+        clerkUserId
+      ))
+      : [];
+    
+    // Step 4: Fuse, deduplicate and rank all results
+    const rankedLists: RankedList[] = [
+      ...(sources.has('keyword') ? [{ kind: 'keyword' as const, results: keywordResults }] : []),
+      ...(sources.has('knowledge_graph') ? [{ kind: 'knowledge_graph' as const, results: knowledgeGraphResults.results }] : []),
+      ...vectorResults.map(results => ({ kind: 'vector' as const, results })),
+      ...entityVectorResults.map(results => ({ kind: 'entity_vector' as const, results }))
+    ];
+    const candidateCount = rankedLists.reduce((sum, list) => sum + list.results.length, 0);
+    // One observation per search that ran, so empty searches show up per source
+    for (const list of rankedLists) {
+      retrievalResults.observe({ source: list.kind }, list.results.length);
+    }
+    reportProgress(`Ranking ${candidateCount} results`);
+    const fusionStart = Date.now();
+    const fusedResults = fuseResults(rankedLists, { topK: config.topK ?? appConfig.retrieval.topK });
+    timer.record('fusion', Date.now() - fusionStart);
+    timer.record('total', Date.now() - startTime);
+    
+    logger.info(`📊 Fused ${candidateCount} results from all sources into ${fusedResults.length}`);
+    logger.info('⏱️ Database query stage timings', { timings: timer.toJSON() });
+    
+    return {
+      results: fusedResults,
+      queryVariations: allQueries,
+      totalResults: fusedResults.length,
+      candidatesBeforeFusion: candidateCount,
+      sources: {
+        keyword: keywordResults.length,
+        knowledgeGraph: knowledgeGraphResults.results.length,
+        vector: vectorResults.flat().length + entityVectorResults.flat().length
+      },
+      timings: timer.toJSON()
+    };
+  }
+  
+  private async rephraseQuery(query: string, usageMeter?: UsageMeter): Promise<string[]> {
     const prompt = `Rephrase this query in 2 different ways to capture different aspects and synonyms.
 Original query: "${query}"
 
@@ -126,14 +180,18 @@ Return ONLY a JSON array with 2 rephrased versions:
 ["rephrased version 1", "rephrased version 2"]`;
     
     try {
-      const response = await this.openai.chat.completions.create({
-        model: OPENAI_MODEL_REPHRASE,
+      const response = await getLlmClient('rephrase').complete({
         messages: [{ role: 'user', content: prompt }],
-        max_completion_tokens: 400
+        maxTokens: 400
       });
+      usageMeter?.record('rephrase', response.model, response.usage);
       
-      const content = response.choices[0]?.message?.content || '[]';
-      return JSON.parse(content);
+      const parsed = rephrasedQueriesSchema.safeParse(JSON.parse(response.content || '[]'));
+      if (!parsed.success) {
+        logger.warn('Rephrased queries were not a list of strings, using original only');
+        return [];
+      }
+      return parsed.data.map(variation => variation.trim()).filter(Boolean);
     } catch (error) {
       logger.warn('Failed to rephrase query, using original only');
       return [];
@@ -143,14 +201,13 @@ Return ONLY a JSON array with 2 rephrased versions:
   private async keywordSearch(query: string, clerkUserId: string): Promise<SearchResult[]> {
     try {
       logger.info('About to query KEYWORD SEARCH table', { clerkUserId });
-      logger.info(`🔍 Keyword search in Supabase: ${query}`);
+      logger.info('🔍 Keyword search in Supabase', { query });
       
-      const { data, error } = await this.supabase
-        .rpc('keyword_search_with_context', {
-          search_query: query,
-          user_id: clerkUserId,
-          context_words: 50
-        });
+      const { data, error } = await tracedRpc(this.supabase, 'keyword_search_with_context', {
+        search_query: query,
+        user_id: clerkUserId,
+        context_words: appConfig.retrieval.keywordContextWords
+      });
       
       if (error) {
         logger.error('Supabase error:', error);
@@ -173,10 +230,9 @@ Return ONLY a JSON array with 2 rephrased versions:
     }
   }
   
-  private async extractEntitiesFromQuery(query: string): Promise<string[]> {
+  private async extractEntitiesFromQuery(query: string, usageMeter?: UsageMeter): Promise<string[]> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: EXTRACT_ENTITIES_MODEL,
+      const response = await getLlmClient('extract_entities').complete({
         messages: [
           {
             role: 'system',
@@ -187,10 +243,11 @@ Return ONLY a JSON array with 2 rephrased versions:
             content: query
           }
         ],
-        response_format: { type: "json_object" },
+        json: true
       });
+      usageMeter?.record('extract_entities', response.model, response.usage);
   
-      const content = response.choices[0]?.message?.content || '{"entities": []}';
+      const content = response.content || '{"entities": []}';
       const parsed = JSON.parse(content);
       return parsed.entities || [];
     } catch (error) {
@@ -199,18 +256,24 @@ Return ONLY a JSON array with 2 rephrased versions:
     }
   }
   
-  private async knowledgeGraphSearch(query: string, clerkUserId: string): Promise<{
+  private async knowledgeGraphSearch(query: string, clerkUserId: string, usageMeter: UsageMeter | undefined, traversal: TraversalOptions, timer: StageTimer): Promise<{
     results: SearchResult[];
     entities: string[];
     entitiesWithDocuments: EntityWithDocument[];
   }> {
     try {
       logger.info('About to query KNOWLEDGE GRAPH table', { clerkUserId });
-      logger.info(`🕸️ Knowledge graph search: ${query}`);
+      logger.info('🕸️ Knowledge graph search', { query });
       
       // Step 1: Extract entities from the user query
-      const extractedEntities = await this.extractEntitiesFromQuery(query);
-      logger.info(`🧠 Extracted entities: ${extractedEntities.join(', ')}`);
+      const extractedEntities = await timer.time('extract_entities', () => cached(
+        'entities',
+        clerkUserId,
+        [normalizeQuery(query)],
+        { ttlMs: appConfig.cache.llmTtlMs, shouldCache: entities => entities.length > 0 },
+        () => this.extractEntitiesFromQuery(query, usageMeter)
+      ));
+      logger.info(`🧠 Extracted ${extractedEntities.length} entities`, { entities: extractedEntities });
       
       if (extractedEntities.length === 0) {
         logger.info('No entities extracted, skipping knowledge graph search');
@@ -218,102 +281,77 @@ Return ONLY a JSON array with 2 rephrased versions:
       }
   
       const results: SearchResult[] = [];
-      const foundEntities: string[] = [];
-      const entitiesWithDocuments: EntityWithDocument[] = [];
-  
-      // Step 2: Find each entity in the knowledge base using function
-      for (const entityName of extractedEntities) {
-        try {
-          // Call search_knowledge_entities function
-          const { data: entityData, error: entityError } = await this.supabase
-            .rpc('search_knowledge_entities', {
-              search_entity_name: entityName,
-              user_id: clerkUserId
-            });
-  
-          if (entityError) {
-            logger.error(`Entity search error for "${entityName}":`, entityError);
-            continue;
-          }
+      const store = new KnowledgeGraphStore(this.supabase, clerkUserId);
   
-          // Step 3: Process found entities and get their relationships/properties
-          for (const entity of entityData || []) {
-            const entityNameFromData = entity.entity_name;
-            const entityType = entity.entity_type;
-            const entityDescription = entity.entity_description;
-            const documentId = entity.data_id;
+      // Step 2: Find all extracted entities in the knowledge base with one lookup
+      const entities = await timer.time('knowledge_graph.entities', () => store.findEntities(extractedEntities));
+      const foundEntities = entities.map(entity => entity.name);
+      const entityRefs: EntityRef[] = entities.map(entity => ({ name: entity.name, documentId: entity.dataId }));
+      const entitiesWithDocuments: EntityWithDocument[] = entities.map(entity => ({
+        entity: entity.name,
+        documentId: entity.dataId
+      }));
   
-            foundEntities.push(entityNameFromData);
-            entitiesWithDocuments.push({
-              entity: entityNameFromData,
-              documentId: documentId
-            });
+      // Steps 3-5: Relationships and related entities from the same documents, both batched
+      const [relationships, relatedEntities] = await Promise.all([
+        timer.time('knowledge_graph.relationships', () => store.findRelationships(entityRefs)),
+        timer.time('knowledge_graph.related', () => store.findRelatedEntities(entityRefs))
+      ]);
   
-            // Add the entity itself to results
-            results.push({
-              source: 'knowledge_graph' as const,
-              content: `Entity: ${entityNameFromData} (${entityType}): ${entityDescription || 'No description'}`,
-              metadata: {
-                entity_name: entityNameFromData,
-                entity_type: entityType,
-                data_id: documentId,
-                type: 'entity'
-              }
-            });
+      for (const entity of entities) {
+        const isSame = (name: string) => normalize(name) === normalize(entity.name);
   
-            // Step 4: Get relationships for this entity from the same document using function
-            const { data: relationshipData, error: relationshipError } = await this.supabase
-              .rpc('search_knowledge_relationships', {
-                search_entity_name: entityNameFromData,
-                user_id: clerkUserId,
-                document_id: documentId
-              });
+        // Add the entity itself to results
+        results.push({
+          source: 'knowledge_graph' as const,
+          content: `Entity: ${entity.name} (${entity.type}): ${entity.description || 'No description'}`,
+          metadata: {
+            entity_name: entity.name,
+            entity_type: entity.type,
+            data_id: entity.dataId,
+            type: 'entity'
+          }
+        });
   
-            if (!relationshipError && relationshipData) {
-              for (const relationship of relationshipData) {
-                results.push({
-                  source: 'knowledge_graph' as const,
-                  content: `Relationship: ${relationship.subject} → ${relationship.predicate} → ${relationship.object}`,
-                  metadata: {
-                    relationship_source: relationship.subject,
-                    relationship_target: relationship.object,
-                    relationship_type: relationship.predicate,
-                    data_id: relationship.data_id,
-                    type: 'relationship'
-                  }
-                });
-              }
+        for (const relationship of relationships) {
+          if (relationship.dataId !== entity.dataId || !(isSame(relationship.subject) || isSame(relationship.object))) continue;
+          results.push({
+            source: 'knowledge_graph' as const,
+            content: `Relationship: ${relationship.subject} → ${relationship.predicate} → ${relationship.object}`,
+            metadata: {
+              relationship_source: relationship.subject,
+              relationship_target: relationship.object,
+              relationship_type: relationship.predicate,
+              data_id: relationship.dataId,
+              type: 'relationship'
             }
+          });
+        }
   
-            // Step 5: Get related entities from the same document using function
-            const { data: relatedEntityData, error: relatedEntityError } = await this.supabase
-              .rpc('get_related_entities', {
-                search_entity_name: entityNameFromData,
-                user_id: clerkUserId,
-                document_id: documentId
-              });
-  
-            if (!relatedEntityError && relatedEntityData) {
-              for (const relatedEntity of relatedEntityData) {
-                results.push({
-                  source: 'knowledge_graph' as const,
-                  content: `Related Entity: ${relatedEntity.entity_name} (${relatedEntity.entity_type})`,
-                  metadata: {
-                    entity_name: relatedEntity.entity_name,
-                    entity_type: relatedEntity.entity_type,
-                    relationship_type: relatedEntity.relationship_type,
-                    data_id: relatedEntity.data_id,
-                    type: 'related_entity'
-                  }
-                });
-              }
+        for (const relatedEntity of relatedEntities) {
+          if (relatedEntity.dataId !== entity.dataId || !isSame(relatedEntity.sourceName)) continue;
+          results.push({
+            source: 'knowledge_graph' as const,
+            content: `Related Entity: ${relatedEntity.name} (${relatedEntity.type})`,
+            metadata: {
+              entity_name: relatedEntity.name,
+              entity_type: relatedEntity.type,
+              relationship_type: relatedEntity.relationshipType,
+              data_id: relatedEntity.dataId,
+              type: 'related_entity'
             }
-          }
-        } catch (entityError) {
-          logger.error(`Failed to process entity "${entityName}":`, entityError);
+          });
         }
       }
   
+      // Step 6: Follow relationships further out, across documents
+      if (traversal.maxHops > 1 && foundEntities.length > 0) {
+        const pathResults = await timer.time('knowledge_graph.traversal', () =>
+          traverseKnowledgeGraph(store, Array.from(new Set(foundEntities)), traversal)
+        );
+        results.push(...pathResults);
+      }
+  
       logger.info(`📊 Knowledge graph found ${results.length} results for ${foundEntities.length} entities`);
       
       return {
@@ -328,42 +366,21 @@ Return ONLY a JSON array with 2 rephrased versions:
     }
   }
   
-  private async vectorSearch(queries: string[], clerkUserId: string): Promise<SearchResult[]> {
+  // One ranked list per query variation so fusion can rank each independently
+  private async vectorSearch(queries: string[], clerkUserId: string): Promise<SearchResult[][]> {
     try {
-      logger.info(`🎯 Vector search with ${queries.length} queries`);
+      logger.info(`🎯 Vector search (${this.vectorStore.name}) with ${queries.length} queries`);
       
-      const allResults: SearchResult[] = [];
-      
-      for (const q of queries) {
+      // Failed queries yield an empty list rather than failing the whole search
+      const allResults = await mapWithConcurrency(queries, appConfig.vectorSearchConcurrency, async q => {
         try {
-          const result = await this.weaviateClient
-            .graphql
-            .get()
-            .withClassName(WEAVIATE_CLASS_NAME)
-            .withTenant(clerkUserId)
-            .withNearText({ concepts: [q] })
-            .withLimit(5)
-            .withFields('content document_id _additional { certainty distance }')
-            .do();
-          
-          if (result.data?.Get?.[WEAVIATE_CLASS_NAME]) {
-            for (const doc of result.data.Get[WEAVIATE_CLASS_NAME]) {
-              allResults.push({
-                source: 'vector' as const,
-                content: doc.content || '',
-                score: doc._additional?.certainty || 0,
-                metadata: { 
-                  query: q,
-                  document_id: doc.document_id,
-                  distance: doc._additional?.distance
-                }
-              });
-            }
-          }
+          const matches = await this.vectorStore.search(clerkUserId, q, { limit: appConfig.retrieval.vectorLimit });
+          return matches.map(match => this.toSearchResult(match, { query: q }));
         } catch (queryError) {
-          logger.error(`Vector search failed for query "${q}":`, queryError);
+          logger.error('Vector search failed for query variation', { query: q, error: queryError });
+          return [];
         }
-      }
+      });
       
       return allResults;
       
@@ -373,50 +390,27 @@ Return ONLY a JSON array with 2 rephrased versions:
     }
   }
   
-  private async searchEntitiesInVector(entitiesWithDocuments: EntityWithDocument[], clerkUserId: string): Promise<SearchResult[]> {
+  private async searchEntitiesInVector(entitiesWithDocuments: EntityWithDocument[], clerkUserId: string): Promise<SearchResult[][]> {
     if (entitiesWithDocuments.length === 0) return [];
     
     try {
       logger.info(`🔎 Searching ${entitiesWithDocuments.length} entities with document IDs in vector DB`);
       
-      const results: SearchResult[] = [];
-      
-      for (const entityDoc of entitiesWithDocuments) {
+      const results = await mapWithConcurrency(entitiesWithDocuments, appConfig.vectorSearchConcurrency, async entityDoc => {
         try {
-          const result = await this.weaviateClient
-            .graphql
-            .get()
-            .withClassName(WEAVIATE_CLASS_NAME)
-            .withTenant(clerkUserId)
-            .withNearText({ concepts: [entityDoc.entity] })
-            .withWhere({
-              path: ['document_id'],
-              operator: 'Equal',
-              valueText: entityDoc.documentId
-            })
-            .withLimit(3)
-            .withFields('content document_id _additional { certainty distance }')
-            .do();
-          
-          if (result.data?.Get?.[WEAVIATE_CLASS_NAME]) {
-            for (const doc of result.data.Get[WEAVIATE_CLASS_NAME]) {
-              results.push({
-                source: 'vector' as const,
-                content: doc.content || '',
-                score: doc._additional?.certainty || 0,
-                metadata: { 
-                  entity: entityDoc.entity,
-                  document_id: doc.document_id,
-                  fromKnowledgeGraph: true,
-                  distance: doc._additional?.distance
-                }
-              });
-            }
-          }
+          const matches = await this.vectorStore.search(clerkUserId, entityDoc.entity, {
+            limit: appConfig.retrieval.entityVectorLimit,
+            documentId: entityDoc.documentId
+          });
+          return matches.map(match => this.toSearchResult(match, {
+            entity: entityDoc.entity,
+            fromKnowledgeGraph: true
+          }));
         } catch (entityError) {
-          logger.error(`Entity vector search failed for "${entityDoc.entity}" in document "${entityDoc.documentId}":`, entityError);
+          logger.error('Entity vector search failed', { documentId: entityDoc.documentId, entity: entityDoc.entity, error: entityError });
+          return [];
         }
-      }
+      });
       
       return results;
       
@@ -425,6 +419,19 @@ Return ONLY a JSON array with 2 rephrased versions:
       return [];
     }
   }
+  
+  private toSearchResult(match: VectorMatch, metadata: Record<string, any>): SearchResult {
+    return {
+      source: 'vector' as const,
+      content: match.content,
+      score: match.score,
+      metadata: {
+        ...metadata,
+        document_id: match.documentId,
+        distance: match.distance
+      }
+    };
+  }
 }
 
 export default DatabaseQueryTool;
\ No newline at end of file
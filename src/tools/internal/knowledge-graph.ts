@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { config } from '../../config/config.js';
+import { logger } from '../../lib/logger.js';
+import { mapWithConcurrency } from '../../lib/concurrency.js';
+import { tracedRpc } from '../../lib/supabase.js';
+import { SearchResult } from './search-result.js';
+
+export interface TraversalOptions {
+  maxHops: number;
+  maxFanOut: number;
+  maxNodes: number;
+}
+
+export interface GraphEntity {
+  name: string;
+  type: string;
+  description?: string;
+  dataId: string;
+  // The requested entity name this row matched
+  searchName: string;
+}
+
+export interface GraphEdge {
+  subject: string;
+  predicate: string;
+  object: string;
+  dataId?: string;
+}
+
+export interface RelatedEntity {
+  sourceName: string;
+  name: string;
+  type: string;
+  relationshipType: string;
+  dataId: string;
+}
+
+// An entity name together with the document it was found in
+export interface EntityRef {
+  name: string;
+  documentId: string;
+}
+
+interface PathNode {
+  name: string;
+  seed: string;
+  // Edges walked from the seed entity to reach this node
+  path: GraphEdge[];
+}
+
+// medium is the default every tool call gets, so it stays at the direct lookup;
+// multi-hop traversal only runs when a caller asks for deep or a hop count
+const DEPTH_HOPS: Record<string, number> = {
+  shallow: 1,
+  medium: 1,
+  deep: 3
+};
+
+// The depth a client or the planner can ask for: a named level or a hop count
+export const depthParamSchema = z.union([
+  z.enum(['shallow', 'medium', 'deep']),
+  z.number().int().min(1).max(config.retrieval.maxHops)
+]).describe('How far to follow knowledge graph relationships: "shallow" and "medium" (default) use direct relationships only, "deep" follows them across documents, or give a hop count');
+
+// Per-entity fallback calls in flight at once when a batch RPC is not deployed
+const FALLBACK_CONCURRENCY = 5;
+// PostgREST: function not found in the schema cache
+const MISSING_FUNCTION_CODE = 'PGRST202';
+
+// Batch functions found missing; not probed again until the process restarts
+const missingBatchFunctions = new Set<string>();
+
+// ToolConfig.depth is either a named level or a hop count
+export function hopsForDepth(depth: string | number | undefined): number {
+  if (typeof depth === 'number') return Math.max(1, Math.floor(depth));
+  if (depth && /^\d+$/.test(depth)) return Math.max(1, Number(depth));
+  return DEPTH_HOPS[depth || 'medium'] ?? DEPTH_HOPS.medium;
+}
+
+/**
+ * Knowledge graph lookups for many entities at once. Each method makes one
+ * batch RPC taking arrays of entity names (and document IDs) whose rows carry
+ * a `search_name` column naming the requested entity they matched. If the
+ * batch function is not deployed it falls back to the per-entity RPCs, run
+ * with bounded concurrency, and stops trying the batch function.
+ */
+export class KnowledgeGraphStore {
+  constructor(private supabase: any, private clerkUserId: string) {}
+
+  async findEntities(names: string[]): Promise<GraphEntity[]> {
+    if (names.length === 0) return [];
+
+    const rows = await this.batchOrFallback(
+      'search_knowledge_entities_batch',
+      { entity_names: names, user_id: this.clerkUserId },
+      names,
+      async name => {
+        const rows = await this.rpc('search_knowledge_entities', { search_entity_name: name, user_id: this.clerkUserId });
+        return rows.map(row => ({ ...row, search_name: name }));
+      }
+    );
+
+    return rows.map(row => ({
+      name: row.entity_name,
+      type: row.entity_type,
+      description: row.entity_description,
+      dataId: row.data_id,
+      searchName: row.search_name
+    }));
+  }
+
+  // Relationships of each entity inside its own document
+  async findRelationships(refs: EntityRef[]): Promise<GraphEdge[]> {
+    if (refs.length === 0) return [];
+
+    const rows = await this.batchOrFallback(
+      'search_knowledge_relationships_batch',
+      { entity_names: refs.map(ref => ref.name), user_id: this.clerkUserId, document_ids: refs.map(ref => ref.documentId) },
+      refs,
+      async ref => {
+        const rows = await this.rpc('search_knowledge_relationships', { search_entity_name: ref.name, user_id: this.clerkUserId, document_id: ref.documentId });
+        return rows.map(row => ({ ...row, search_name: ref.name }));
+      }
+    );
+
+    // The batch matches names and documents independently; keep only the requested pairs
+    const pairs = new Set(refs.map(ref => `${normalize(ref.name)}|${ref.documentId}`));
+    return rows
+      .filter(row => pairs.has(`${normalize(row.search_name)}|${row.data_id}`))
+      .map(toEdge);
+  }
+
+  // Relationships of each entity across all of the user's documents
+  async findAllRelationships(names: string[]): Promise<GraphEdge[]> {
+    if (names.length === 0) return [];
+
+    const rows = await this.batchOrFallback(
+      'search_knowledge_relationships_batch',
+      { entity_names: names, user_id: this.clerkUserId, document_ids: null },
+      names,
+      name => this.rpc('search_knowledge_relationships', { search_entity_name: name, user_id: this.clerkUserId, document_id: null })
+    );
+
+    return rows.map(toEdge);
+  }
+
+  async findRelatedEntities(refs: EntityRef[]): Promise<RelatedEntity[]> {
+    if (refs.length === 0) return [];
+
+    const rows = await this.batchOrFallback(
+      'get_related_entities_batch',
+      { entity_names: refs.map(ref => ref.name), user_id: this.clerkUserId, document_ids: refs.map(ref => ref.documentId) },
+      refs,
+      async ref => {
+        const rows = await this.rpc('get_related_entities', { search_entity_name: ref.name, user_id: this.clerkUserId, document_id: ref.documentId });
+        return rows.map(row => ({ ...row, search_name: ref.name }));
+      }
+    );
+
+    const pairs = new Set(refs.map(ref => `${normalize(ref.name)}|${ref.documentId}`));
+    return rows
+      .filter(row => pairs.has(`${normalize(row.search_name)}|${row.data_id}`))
+      .map(row => ({
+        sourceName: row.search_name,
+        name: row.entity_name,
+        type: row.entity_type,
+        relationshipType: row.relationship_type,
+        dataId: row.data_id
+      }));
+  }
+
+  private async batchOrFallback<T>(
+    batchFunction: string,
+    batchParams: Record<string, any>,
+    items: T[],
+    single: (item: T) => Promise<any[]>
+  ): Promise<any[]> {
+    if (!missingBatchFunctions.has(batchFunction)) {
+      const { data, error } = await tracedRpc(this.supabase, batchFunction, batchParams);
+
+      if (!error) {
+        return data || [];
+      }
+
+      if (error.code !== MISSING_FUNCTION_CODE) {
+        logger.error(`Batch RPC ${batchFunction} failed:`, error);
+        return [];
+      }
+
+      missingBatchFunctions.add(batchFunction);
+      logger.warn(`Batch RPC ${batchFunction} not deployed, using per-entity lookups until restart`);
+    }
+
+    const perItem = await mapWithConcurrency(items, FALLBACK_CONCURRENCY, single);
+    return perItem.flat();
+  }
+
+  private async rpc(fn: string, params: Record<string, any>): Promise<any[]> {
+    const { data, error } = await tracedRpc(this.supabase, fn, params);
+    if (error) {
+      logger.error(`RPC ${fn} failed:`, error);
+      return [];
+    }
+    return data || [];
+  }
+}
+
+/**
+ * Breadth-first walk over the user's knowledge graph, across documents.
+ * Starts from the given seed entities and returns every path of two or more
+ * hops as evidence, e.g. "A → works_for → B → acquired → C". One-hop
+ * relationships are already covered by the direct lookup. Each hop is a
+ * single batched lookup for the whole frontier.
+ */
+export async function traverseKnowledgeGraph(
+  store: KnowledgeGraphStore,
+  seeds: string[],
+  options: TraversalOptions
+): Promise<SearchResult[]> {
+  const visited = new Set(seeds.map(normalize));
+  let frontier: PathNode[] = seeds.map(name => ({ name, seed: name, path: [] }));
+  const results: SearchResult[] = [];
+
+  for (let hop = 1; hop <= options.maxHops && frontier.length > 0; hop++) {
+    const edges = await store.findAllRelationships(frontier.map(node => node.name));
+    const next: PathNode[] = [];
+
+    for (const node of frontier) {
+      const nodeEdges = edges.filter(edge => normalize(edge.subject) === normalize(node.name) || normalize(edge.object) === normalize(node.name));
+
+      for (const edge of nodeEdges.slice(0, options.maxFanOut)) {
+        const neighbour = normalize(edge.subject) === normalize(node.name) ? edge.object : edge.subject;
+        if (visited.has(normalize(neighbour))) continue;
+        if (visited.size >= options.maxNodes) break;
+
+        visited.add(normalize(neighbour));
+        const path = [...node.path, edge];
+        next.push({ name: neighbour, seed: node.seed, path });
+
+        if (path.length >= 2) {
+          results.push(pathResult(path, node.seed));
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  logger.info(`🧭 Graph traversal visited ${visited.size} entities and found ${results.length} multi-hop paths`);
+  return results;
+}
+
+function toEdge(relationship: any): GraphEdge {
+  return {
+    subject: relationship.subject,
+    predicate: relationship.predicate,
+    object: relationship.object,
+    dataId: relationship.data_id
+  };
+}
+
+function pathResult(path: GraphEdge[], start: string): SearchResult {
+  const entities = [start];
+  const parts = [start];
+
+  for (const edge of path) {
+    const from = entities[entities.length - 1];
+    const forward = normalize(edge.subject) === normalize(from);
+    const to = forward ? edge.object : edge.subject;
+    parts.push(forward ? edge.predicate : `(${edge.predicate} of)`, to);
+    entities.push(to);
+  }
+
+  return {
+    source: 'knowledge_graph' as const,
+    content: `Path: ${parts.join(' → ')}`,
+    metadata: {
+      type: 'path',
+      hops: path.length,
+      entities,
+      data_id: path[path.length - 1].dataId,
+      data_ids: Array.from(new Set(path.map(edge => edge.dataId).filter(Boolean)))
+    }
+  };
+}
+
+export function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { Tool, ToolPlan } from './executor.js';
+import { getToolRegistry } from './tool-registry.js';
+import { logger } from '../../lib/logger.js';
+import { UsageMeter } from '../../lib/usage-meter.js';
+import { getLlmClient } from '../../lib/llm.js';
+
+const FALLBACK_TOOL = 'database_query';
+const MAX_PLANNED_TOOLS = 5;
+
+const plannedToolSchema = z.object({
+  name: z.string(),
+  params: z.record(z.any()).optional().default({}),
+  priority: z.coerce.number().int().min(1).optional().default(1),
+  reason: z.string().optional().default('')
+});
+
+const toolPlanSchema = z.object({
+  tools: z.array(plannedToolSchema),
+  strategy: z.enum(['parallel', 'sequential']).optional().default('parallel')
+});
+
+export class Planner {
+  // A depth from the caller overrides whatever depth the LLM picks
+  async planTools(query: string, usageMeter?: UsageMeter, depth?: string | number): Promise<ToolPlan> {
+    const toolRegistry = getToolRegistry();
+
+    // Nothing to choose between, skip the LLM round trip
+    if (toolRegistry.getAllTools().length <= 1) {
+      return this.fallbackPlan(query, depth);
+    }
+
+    const prompt = `You select internal tools to answer a user query.
+
+QUERY: "${query}"
+
+AVAILABLE TOOLS:
+${toolRegistry.getToolDescriptions()}
+
+Return ONLY a JSON object of this shape:
+{
+  "tools": [{ "name": "<tool name>", "params": { "query": "<query for this tool>", "depth": "shallow" | "medium" | "deep" }, "priority": 1, "reason": "<why>" }],
+  "strategy": "parallel" | "sequential"
+}
+
+Rules:
+1. Use only tool names from the list above
+2. Priority 1 runs first
+3. Use "sequential" only when a tool needs the results of an earlier one
+4. Use at most ${MAX_PLANNED_TOOLS} tools
+5. Set "depth" to "deep" only when the query asks how people, organizations or events are connected through others; otherwise leave it out`;
+
+    try {
+      const response = await getLlmClient('plan').complete({
+        messages: [{ role: 'system', content: prompt }],
+        json: true,
+        maxTokens: 800
+      });
+      usageMeter?.record('plan', response.model, response.usage);
+
+      const content = response.content || '{}';
+      return this.validatePlan(JSON.parse(content), query, depth);
+    } catch (error) {
+      logger.warn('Tool planning failed, falling back to database_query', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return this.fallbackPlan(query, depth);
+    }
+  }
+
+  private validatePlan(raw: unknown, query: string, depth?: string | number): ToolPlan {
+    const parsed = toolPlanSchema.safeParse(raw);
+    if (!parsed.success) {
+      logger.warn('Planner returned an invalid plan, falling back to database_query', {
+        issues: parsed.error.issues.map(issue => issue.message)
+      });
+      return this.fallbackPlan(query, depth);
+    }
+
+    const toolRegistry = getToolRegistry();
+    const seen = new Set<string>();
+    const tools: Tool[] = [];
+
+    for (const planned of parsed.data.tools) {
+      if (!toolRegistry.getTool(planned.name)) {
+        logger.warn(`Planner chose unknown tool "${planned.name}", ignoring it`);
+        continue;
+      }
+      if (seen.has(planned.name)) continue;
+      seen.add(planned.name);
+
+      tools.push({
+        name: planned.name,
+        params: {
+          ...planned.params,
+          ...(depth !== undefined && { depth }),
+          query: typeof planned.params.query === 'string' && planned.params.query.trim() ? planned.params.query : query
+        },
+        priority: planned.priority,
+        reason: planned.reason
+      });
+    }
+
+    if (tools.length === 0) {
+      return this.fallbackPlan(query, depth);
+    }
+
+    const plan: ToolPlan = {
+      tools: tools.slice(0, MAX_PLANNED_TOOLS),
+      strategy: parsed.data.strategy
+    };
+
+    logger.info(`📋 Planned ${plan.tools.length} tools (${plan.strategy}): ${plan.tools.map(t => t.name).join(', ')}`);
+    return plan;
+  }
+
+  fallbackPlan(query: string, depth?: string | number): ToolPlan {
+    return {
+      tools: [{
+        name: FALLBACK_TOOL,
+        params: {
+          query,
+          ...(depth !== undefined && { depth })
+        },
+        priority: 1,
+        reason: 'Search user private data and uploaded documents'
+      }],
+      strategy: 'parallel'
+    };
+  }
+}
@@ -1,58 +1,51 @@
-import OpenAI from 'openai';
 import { ToolResult } from './executor.js';
+import { Citation, collectCitations, markCitedPassages } from './citations.js';
 import { logger } from '../../lib/logger.js';
-
-// Model configuration
-const OPENAI_MODEL_REFINER = process.env.OPENAI_MODEL_REFINER!;
+import { UsageMeter } from '../../lib/usage-meter.js';
+import { getLlmClient } from '../../lib/llm.js';
 
 export interface RefinedResponse {
   content: string;
   confidence: number;
+  citations: Citation[];
+}
+
+export interface RefineOptions {
+  // Receives the answer as it is generated; enables streaming
+  onPartial?: (delta: string) => void;
+  usageMeter?: UsageMeter;
 }
 
 export class Refiner {
-  private openai: OpenAI;
-  
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
-  
-  async refineResults(query: string, results: ToolResult[]): Promise<RefinedResponse> {
+  async refineResults(query: string, results: ToolResult[], options: RefineOptions = {}): Promise<RefinedResponse> {
     const successful = results.filter(r => r.success);
     
-    // ADD THIS: Log raw input data
-    logger.info('=== REFINER INPUT DEBUG ===');
-    logger.info(`Query: "${query}"`);
-    logger.info(`Total tool results: ${results.length}`);
-    logger.info(`Successful tool results: ${successful.length}`);
-    
-    successful.forEach((result, index) => {
-      logger.info(`--- Tool ${index + 1}: ${result.tool} ---`);
-      logger.info('Raw data:', JSON.stringify(result.data, null, 2));
-      
-      // Show source breakdown if it's the database tool
-      if (result.data && result.data.sources) {
-        logger.info('Source breakdown:', result.data.sources);
-      }
+    logger.info(`Refining ${successful.length} of ${results.length} tool results`, {
+      sources: successful.map(result => ({ tool: result.tool, sources: result.data?.sources }))
     });
-    logger.info('=== END REFINER INPUT ===');
+    // Retrieved documents are user data: content is redacted unless logContent is on
+    successful.forEach(result => logger.debug(`Refiner input from ${result.tool}`, { query, rawData: result.data }));
     
     if (successful.length === 0) {
       logger.warn('No successful tool executions');
       return {
         content: "I couldn't find the information needed to answer your query. Please try rephrasing.",
-        confidence: 0
+        confidence: 0,
+        citations: []
       };
     }
     
+    const { citations, passages } = collectCitations(successful);
+    
     const prompt = `Create a comprehensive answer based on tool results.
 
 ORIGINAL QUERY: "${query}"
 
-TOOL RESULTS:
-${successful.map(r => `
+PASSAGES:
+${Array.from(passages.entries()).map(([marker, passage]) => `[${marker}] (${passage.source}) ${passage.content}`).join('\n\n')}
+
+OTHER TOOL RESULTS:
+${successful.filter(r => !Array.isArray(r.data?.results)).map(r => `
 Tool: ${r.tool}
 Data: ${JSON.stringify(r.data, null, 2)}
 `).join('\n---\n')}
@@ -63,28 +56,44 @@ Instructions:
 3. Remove duplicates
 4. Be conversational and helpful
 5. Do NOT mention the tools used
+6. Cite the passages you use inline with their markers, e.g. [1] or [2, 3]
 
 Provide the answer:`;
 
-    const response = await this.openai.chat.completions.create({
-      model: OPENAI_MODEL_REFINER,
-      messages: [{ role: 'system', content: prompt }],
-      max_completion_tokens: 2000
-    });
-    
-    const content = response.choices[0]?.message?.content || 'Unable to generate response';
+    const content = options.onPartial
+      ? await this.streamCompletion(prompt, options.onPartial, options.usageMeter)
+      : await this.completion(prompt, options.usageMeter);
     const confidence = this.calculateConfidence(results);
     
-    logger.info('=== REFINER OUTPUT DEBUG ===');
-    logger.info('Refined content:', content);
-    logger.info('=== END REFINER OUTPUT ===');
+    logger.debug('Refined answer', { content });
     
     return {
       content,
-      confidence
+      confidence,
+      citations: markCitedPassages(content, citations)
     };
   }
   
+  private async completion(prompt: string, usageMeter?: UsageMeter): Promise<string> {
+    const response = await getLlmClient('refine').complete({
+      messages: [{ role: 'system', content: prompt }],
+      maxTokens: 2000
+    });
+    usageMeter?.record('refine', response.model, response.usage);
+    
+    return response.content || 'Unable to generate response';
+  }
+  
+  private async streamCompletion(prompt: string, onPartial: (delta: string) => void, usageMeter?: UsageMeter): Promise<string> {
+    const response = await getLlmClient('refine').stream({
+      messages: [{ role: 'system', content: prompt }],
+      maxTokens: 2000
+    }, onPartial);
+    usageMeter?.record('refine', response.model, response.usage);
+    
+    return response.content || 'Unable to generate response';
+  }
+  
   private calculateConfidence(results: ToolResult[]): number {
     const successful = results.filter(r => r.success).length;
     const total = results.length;
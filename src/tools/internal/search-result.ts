@@ -0,0 +1,20 @@
+export type SearchSource = 'keyword' | 'knowledge_graph' | 'vector';
+
+export interface SearchResult {
+  source: SearchSource;
+  content: string;
+  metadata?: any;
+  score?: number;
+  fusion?: FusionInfo;
+}
+
+export interface FusionInfo {
+  sources: SearchSource[];
+  rrfScore: number;
+  duplicates: number;
+}
+
+// Identifier of the uploaded document a result came from, whichever field the source uses
+export function getDocumentId(result: SearchResult): string | undefined {
+  return result.metadata?.document_id || result.metadata?.data_id || undefined;
+}
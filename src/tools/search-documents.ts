@@ -0,0 +1,218 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { updateRequestContext } from '../lib/request-context.js';
+import { ProgressReporter } from '../lib/progress.js';
+import { UsageMeter } from '../lib/usage-meter.js';
+import { TOOLS } from './index.js';
+import { reserveUsage, commitUsage, refundUsage, trackUsage, UsageReservation } from '../lib/usage.js';
+import { classifyError } from '../lib/errors.js';
+import { withTimeout } from '../lib/concurrency.js';
+import { config } from '../config/config.js';
+import { Executor, ToolPlan } from './internal/executor.js';
+import { collectCitations } from './internal/citations.js';
+import { depthParamSchema } from './internal/knowledge-graph.js';
+import { getDocumentId } from './internal/search-result.js';
+
+const USER_ERROR_MESSAGE = 'Search failed. Please try again later.';
+
+const sourceSchema = z.enum(['keyword', 'knowledge_graph', 'vector']);
+// Keyword results carry the numeric user_data ID, the other sources a string
+const idSchema = z.union([z.string(), z.number()]);
+
+// The structuredContent of a successful search
+const outputSchema = {
+  results: z.array(z.object({
+    marker: z.number().int(),
+    content: z.string().describe('Full text of the retrieved chunk'),
+    source: sourceSchema,
+    sources: z.array(sourceSchema).describe('Every search that found this passage'),
+    score: z.number().optional(),
+    documentId: idSchema.optional(),
+    resourceUri: z.string().optional(),
+    metadata: z.record(z.any()).optional()
+  })).describe('Ranked passages, best first'),
+  citations: z.array(z.object({
+    marker: z.number().int(),
+    source: sourceSchema,
+    sources: z.array(sourceSchema),
+    excerpt: z.string(),
+    score: z.number().optional(),
+    documentId: idSchema.optional(),
+    resourceUri: z.string().optional(),
+    dataId: idSchema.optional(),
+    matchPosition: z.number().optional()
+  })).describe('Short excerpts for citing each passage by its marker'),
+  queryVariations: z.array(z.string()),
+  sources: z.object({ keyword: z.number(), knowledgeGraph: z.number(), vector: z.number() })
+    .describe('Results each search found before fusion'),
+  totalResults: z.number().int(),
+  candidatesBeforeFusion: z.number().int()
+};
+
+/**
+ * Raw retrieval: runs database_query directly and returns the ranked passages
+ * without the Planner or Refiner, for clients that do their own reasoning.
+ */
+export function registerSearchDocumentsTool(server: McpServer) {
+  logger.debug('Registering search_documents tool...');
+
+  const tool = server.registerTool(
+    'search_documents',
+    {
+      description: TOOLS.search_documents.description,
+      inputSchema: {
+        query: z.string().min(1, 'Query is required'),
+        topK: z.number().int().min(1).max(50).optional().describe('Number of passages to return (default 10)'),
+        sources: z.array(sourceSchema).optional()
+          .describe('Searches to run; all of them when omitted'),
+        depth: depthParamSchema.optional(),
+        context: z.record(z.any()).optional().describe('Optional context'),
+      },
+      outputSchema
+    },
+    async (params, extra) => {
+      const startTime = Date.now();
+      const { query, topK = 10, sources, depth, context } = params;
+      const progress = new ProgressReporter(extra);
+      const usageMeter = new UsageMeter();
+      let reservation: UsageReservation | undefined;
+
+      updateRequestContext({ tool: 'search_documents' });
+      logger.info('Search documents received query', { query, topK, sources, depth });
+
+      try {
+        const clerkUserId = context?.clerkUserId;
+        const usageStrategy = context?.usageStrategy;
+
+        if (!clerkUserId) {
+          logger.error('No user ID found in context');
+          return {
+            content: [{
+              type: 'text',
+              text: 'Error: User authentication required. Please ensure you are properly authenticated.'
+            }],
+            isError: true
+          };
+        }
+
+        progress.stage('Checking usage limits');
+        const { reservation: reserved, usage: usageCheck } = await reserveUsage(
+          clerkUserId,
+          usageStrategy?.useHeroPoints || false,
+          TOOLS.search_documents.usageWeight
+        );
+
+        if (!reserved) {
+          logger.warn('Usage limit exceeded', { clerkUserId });
+          return {
+            content: [{
+              type: 'text',
+              text: usageCheck.message || 'Usage limit exceeded. Please try again later.'
+            }],
+            isError: true
+          };
+        }
+
+        reservation = reserved;
+
+        const plan: ToolPlan = {
+          tools: [{ name: 'database_query', params: { query, topK, sources, depth }, priority: 1, reason: 'search_documents' }],
+          strategy: 'parallel'
+        };
+
+        const executor = new Executor();
+        const [result] = await withTimeout(
+          executor.executeTools(plan, clerkUserId, {
+            onProgress: message => progress.stage(message),
+            usageMeter
+          }),
+          config.requestTimeoutMs,
+          'search_documents'
+        );
+        await progress.done();
+
+        if (!result?.success) {
+          throw new Error(`database_query failed: ${result?.error}`);
+        }
+
+        // Full chunks for the caller to reason over; the citations only carry excerpts
+        const { citations, passages: retrieved } = collectCitations([result]);
+        const passages = Array.from(retrieved, ([marker, passage]) => ({
+          marker,
+          content: passage.content,
+          source: passage.source,
+          sources: passage.fusion?.sources || [passage.source],
+          score: passage.score,
+          documentId: getDocumentId(passage),
+          resourceUri: citations[marker - 1].resourceUri,
+          metadata: passage.metadata
+        }));
+        const executionTime = Date.now() - startTime;
+        const usageTotals = usageMeter.totals();
+
+        commitUsage(reservation);
+        trackUsage(clerkUserId, 'search_documents', {
+          inputTokens: usageTotals.inputTokens,
+          outputTokens: usageTotals.outputTokens,
+          totalTokens: usageTotals.totalTokens,
+          cost: usageTotals.cost,
+          processingTime: executionTime,
+          toolsUsed: ['database_query'],
+          modelsUsed: usageMeter.models,
+          stageUsage: usageMeter.stages
+        });
+
+        logger.info(`🔎 Search returned ${passages.length} passages in ${executionTime}ms`);
+
+        const text = passages.length > 0
+          ? passages.map(p => `[${p.marker}] (${p.sources.join(', ')}) ${p.content}`).join('\n\n')
+          : 'No matching passages found.';
+
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: {
+            results: passages,
+            citations: citations.map(({ tool, cited, ...citation }) => citation),
+            queryVariations: result.data.queryVariations,
+            sources: result.data.sources,
+            totalResults: result.data.totalResults,
+            candidatesBeforeFusion: result.data.candidatesBeforeFusion
+          }
+        };
+
+      } catch (error) {
+        logger.error('Search documents failed:', error);
+        // Flush what was queued and stop a still-running pipeline from sending after the response
+        await progress.done();
+
+        const errorCategory = classifyError(error);
+
+        if (reservation) {
+          const usageTotals = usageMeter.totals();
+          refundUsage(reservation);
+          trackUsage(reservation.clerkUserId, 'search_documents', {
+            inputTokens: usageTotals.inputTokens,
+            outputTokens: usageTotals.outputTokens,
+            totalTokens: usageTotals.totalTokens,
+            cost: usageTotals.cost,
+            processingTime: Date.now() - startTime,
+            toolsUsed: ['database_query'],
+            modelsUsed: usageMeter.models,
+            stageUsage: usageMeter.stages,
+            isError: true,
+            errorCategory
+          });
+        }
+
+        return {
+          content: [{ type: 'text', text: USER_ERROR_MESSAGE }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  TOOLS.search_documents.registeredTool = tool;
+  logger.debug('Successfully registered search_documents tool');
+}
@@ -0,0 +1,138 @@
+-- Quota reservations used by src/lib/usage.ts (reserveUsage, commitUsage,
+-- refundUsage) and the extra columns trackUsage writes to "requests".
+--
+-- A reservation takes requests from the user's counters up front. Committing
+-- it keeps them spent; refunding it puts them back on the counter they came
+-- from. Both are idempotent so a replayed write cannot double count.
+
+create table if not exists usage_reservations (
+  id uuid primary key default gen_random_uuid(),
+  clerk_user_id text not null,
+  units integer not null check (units >= 0),
+  -- 'daily' takes from available_requests_today and _month, 'hero_points' from hero_points
+  source text not null check (source in ('daily', 'hero_points')),
+  status text not null default 'reserved' check (status in ('reserved', 'committed', 'refunded')),
+  created_at timestamptz not null default now(),
+  settled_at timestamptz
+);
+
+create index if not exists usage_reservations_user_idx on usage_reservations (clerk_user_id, created_at desc);
+
+-- Returns one row with the new counters, or no row when the quota can't cover p_units.
+-- Daily/monthly requests are used first unless the caller asks for hero points;
+-- hero points are the fallback once the daily or monthly requests run out.
+create or replace function reserve_usage(p_clerk_user_id text, p_use_hero_points boolean, p_units integer default 1)
+returns table (
+  reservation_id uuid,
+  available_requests_today integer,
+  available_requests_month integer,
+  hero_points integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user users%rowtype;
+  v_source text;
+begin
+  if p_units < 0 then
+    raise exception 'p_units must not be negative';
+  end if;
+
+  -- Row lock: concurrent reservations for the same user queue up here
+  select * into v_user from users u where u.clerk_user_id = p_clerk_user_id for update;
+  if not found then
+    return;
+  end if;
+
+  if not p_use_hero_points
+     and coalesce(v_user.available_requests_today, 0) >= p_units
+     and coalesce(v_user.available_requests_month, 0) >= p_units then
+    v_source := 'daily';
+    update users u
+       set available_requests_today = coalesce(u.available_requests_today, 0) - p_units,
+           available_requests_month = coalesce(u.available_requests_month, 0) - p_units
+     where u.clerk_user_id = p_clerk_user_id
+     returning * into v_user;
+  elsif coalesce(v_user.hero_points, 0) >= p_units then
+    v_source := 'hero_points';
+    update users u
+       set hero_points = coalesce(u.hero_points, 0) - p_units
+     where u.clerk_user_id = p_clerk_user_id
+     returning * into v_user;
+  else
+    return;
+  end if;
+
+  insert into usage_reservations (clerk_user_id, units, source)
+  values (p_clerk_user_id, p_units, v_source)
+  returning id into reservation_id;
+
+  available_requests_today := v_user.available_requests_today;
+  available_requests_month := v_user.available_requests_month;
+  hero_points := v_user.hero_points;
+  return next;
+end;
+$$;
+
+-- Keeps the reserved requests spent. Only an open reservation can be committed.
+create or replace function commit_usage(p_reservation_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with settled as (
+    update usage_reservations
+       set status = 'committed', settled_at = now()
+     where id = p_reservation_id and status = 'reserved'
+    returning id
+  )
+  select exists (select 1 from settled);
+$$;
+
+-- Puts the reserved requests back where they were taken from. Only an open
+-- reservation can be refunded, so a retried refund does nothing.
+create or replace function refund_usage(p_reservation_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation usage_reservations%rowtype;
+begin
+  update usage_reservations
+     set status = 'refunded', settled_at = now()
+   where id = p_reservation_id and status = 'reserved'
+  returning * into v_reservation;
+
+  if not found then
+    return false;
+  end if;
+
+  if v_reservation.source = 'daily' then
+    update users
+       set available_requests_today = coalesce(available_requests_today, 0) + v_reservation.units,
+           available_requests_month = coalesce(available_requests_month, 0) + v_reservation.units
+     where clerk_user_id = v_reservation.clerk_user_id;
+  else
+    update users
+       set hero_points = coalesce(hero_points, 0) + v_reservation.units
+     where clerk_user_id = v_reservation.clerk_user_id;
+  end if;
+
+  return true;
+end;
+$$;
+
+-- The server calls these with the service role key only
+revoke all on function reserve_usage(text, boolean, integer) from public, anon, authenticated;
+revoke all on function commit_usage(uuid) from public, anon, authenticated;
+revoke all on function refund_usage(uuid) from public, anon, authenticated;
+
+alter table requests
+  add column if not exists models_used text[] not null default '{}',
+  add column if not exists usage_breakdown jsonb not null default '[]'::jsonb,
+  add column if not exists error_category text;
@@ -0,0 +1,71 @@
+-- Tools can cost a fraction of a request (search_documents reserves 0.25, see
+-- usageWeight in src/tools/index.ts), so the quota counters and reservations
+-- hold numeric values instead of integers. Whole-request plans are unaffected.
+
+alter table users
+  alter column available_requests_today type numeric(12, 2),
+  alter column available_requests_month type numeric(12, 2),
+  alter column hero_points type numeric(12, 2);
+
+alter table usage_reservations
+  alter column units type numeric(12, 2);
+
+-- The return type changes, so the function has to be replaced rather than updated
+drop function if exists reserve_usage(text, boolean, integer);
+
+create or replace function reserve_usage(p_clerk_user_id text, p_use_hero_points boolean, p_units numeric default 1)
+returns table (
+  reservation_id uuid,
+  available_requests_today numeric,
+  available_requests_month numeric,
+  hero_points numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user users%rowtype;
+  v_source text;
+begin
+  if p_units < 0 then
+    raise exception 'p_units must not be negative';
+  end if;
+
+  -- Row lock: concurrent reservations for the same user queue up here
+  select * into v_user from users u where u.clerk_user_id = p_clerk_user_id for update;
+  if not found then
+    return;
+  end if;
+
+  if not p_use_hero_points
+     and coalesce(v_user.available_requests_today, 0) >= p_units
+     and coalesce(v_user.available_requests_month, 0) >= p_units then
+    v_source := 'daily';
+    update users u
+       set available_requests_today = coalesce(u.available_requests_today, 0) - p_units,
+           available_requests_month = coalesce(u.available_requests_month, 0) - p_units
+     where u.clerk_user_id = p_clerk_user_id
+     returning * into v_user;
+  elsif coalesce(v_user.hero_points, 0) >= p_units then
+    v_source := 'hero_points';
+    update users u
+       set hero_points = coalesce(u.hero_points, 0) - p_units
+     where u.clerk_user_id = p_clerk_user_id
+     returning * into v_user;
+  else
+    return;
+  end if;
+
+  insert into usage_reservations (clerk_user_id, units, source)
+  values (p_clerk_user_id, p_units, v_source)
+  returning id into reservation_id;
+
+  available_requests_today := v_user.available_requests_today;
+  available_requests_month := v_user.available_requests_month;
+  hero_points := v_user.hero_points;
+  return next;
+end;
+$$;
+
+revoke all on function reserve_usage(text, boolean, numeric) from public, anon, authenticated;
@@ -0,0 +1,47 @@
+-- Tables written by src/lib/documents.ts (createDocument, used by add_document)
+-- and src/lib/ingestion/graph-extractor.ts (saveGraph). Deployments that
+-- predate add_document already have them for keyword_search_with_context and
+-- the knowledge graph RPCs; this only adds what is missing. The names are the
+-- defaults of documentsTable and knowledgeGraph.* in the config.
+
+create table if not exists user_data (
+  id bigint generated by default as identity primary key,
+  clerk_user_id text not null,
+  created_at timestamptz not null default now()
+);
+
+-- createDocument inserts title and content and reads back id, title, created_at
+alter table user_data
+  add column if not exists title text,
+  add column if not exists content text not null default '';
+
+create index if not exists user_data_user_idx on user_data (clerk_user_id, created_at desc);
+
+-- data_id is the user_data.id of the document the row was extracted from
+create table if not exists knowledge_entities (
+  id bigint generated by default as identity primary key,
+  clerk_user_id text not null,
+  data_id text not null,
+  entity_name text not null,
+  entity_type text,
+  entity_description text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists knowledge_relationships (
+  id bigint generated by default as identity primary key,
+  clerk_user_id text not null,
+  data_id text not null,
+  subject text not null,
+  predicate text not null,
+  object text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table knowledge_entities
+  add column if not exists entity_type text,
+  add column if not exists entity_description text;
+
+-- Erasure deletes and counts by (clerk_user_id, data_id)
+create index if not exists knowledge_entities_document_idx on knowledge_entities (clerk_user_id, data_id);
+create index if not exists knowledge_relationships_document_idx on knowledge_relationships (clerk_user_id, data_id);
@@ -0,0 +1,90 @@
+-- Batch knowledge graph lookups used by KnowledgeGraphStore in
+-- src/tools/internal/knowledge-graph.ts. Each takes arrays of entity names
+-- (and optionally document IDs) and returns the rows for all of them in one
+-- call, with search_name naming the requested entity a row matched. Names
+-- match case-insensitively after trimming, like normalize() in the server.
+-- Document IDs, when given, filter independently of the names; the server
+-- keeps only the (name, document) pairs it asked for.
+
+create index if not exists knowledge_entities_name_idx
+  on knowledge_entities (clerk_user_id, lower(trim(entity_name)));
+create index if not exists knowledge_relationships_subject_idx
+  on knowledge_relationships (clerk_user_id, lower(trim(subject)));
+create index if not exists knowledge_relationships_object_idx
+  on knowledge_relationships (clerk_user_id, lower(trim(object)));
+
+create or replace function search_knowledge_entities_batch(entity_names text[], user_id text)
+returns table (
+  search_name text,
+  entity_name text,
+  entity_type text,
+  entity_description text,
+  data_id text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select n.name, e.entity_name, e.entity_type, e.entity_description, e.data_id
+    from unnest(entity_names) as n(name)
+    join knowledge_entities e
+      on e.clerk_user_id = user_id
+     and lower(trim(e.entity_name)) = lower(trim(n.name));
+$$;
+
+-- document_ids null searches all of the user's documents
+create or replace function search_knowledge_relationships_batch(entity_names text[], user_id text, document_ids text[] default null)
+returns table (
+  search_name text,
+  subject text,
+  predicate text,
+  object text,
+  data_id text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select n.name, r.subject, r.predicate, r.object, r.data_id
+    from unnest(entity_names) as n(name)
+    join knowledge_relationships r
+      on r.clerk_user_id = user_id
+     and (lower(trim(r.subject)) = lower(trim(n.name)) or lower(trim(r.object)) = lower(trim(n.name)))
+   where document_ids is null or r.data_id = any(document_ids);
+$$;
+
+-- Entities on the other end of each requested entity's relationships, in the same document
+create or replace function get_related_entities_batch(entity_names text[], user_id text, document_ids text[] default null)
+returns table (
+  search_name text,
+  entity_name text,
+  entity_type text,
+  relationship_type text,
+  data_id text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select distinct n.name, e.entity_name, e.entity_type, r.predicate, r.data_id
+    from unnest(entity_names) as n(name)
+    join knowledge_relationships r
+      on r.clerk_user_id = user_id
+     and (lower(trim(r.subject)) = lower(trim(n.name)) or lower(trim(r.object)) = lower(trim(n.name)))
+    join knowledge_entities e
+      on e.clerk_user_id = user_id
+     and e.data_id = r.data_id
+     and lower(trim(e.entity_name)) = case
+           when lower(trim(r.subject)) = lower(trim(n.name)) then lower(trim(r.object))
+           else lower(trim(r.subject))
+         end
+   where document_ids is null or r.data_id = any(document_ids);
+$$;
+
+-- The server calls these with the service role key only
+revoke all on function search_knowledge_entities_batch(text[], text) from public, anon, authenticated;
+revoke all on function search_knowledge_relationships_batch(text[], text, text[]) from public, anon, authenticated;
+revoke all on function get_related_entities_batch(text[], text, text[]) from public, anon, authenticated;
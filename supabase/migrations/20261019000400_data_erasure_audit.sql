@@ -0,0 +1,24 @@
+-- Audit trail written by src/lib/erasure.ts (recordAudit) after every document
+-- deletion and account erasure. Rows hold counts and IDs only, never any of
+-- the erased content, and are kept after the data is gone. The name is the
+-- default of erasureAuditTable in the config.
+
+create table if not exists data_erasure_audit (
+  id bigint generated by default as identity primary key,
+  clerk_user_id text not null,
+  scope text not null check (scope in ('document', 'account')),
+  -- Null for account erasure
+  document_id text,
+  -- "mcp:<OAuth client ID>" of the caller
+  requested_by text not null,
+  deleted_counts jsonb not null,
+  -- Null when the check after deleting failed; verification_error says why
+  remaining_counts jsonb,
+  failed_stores text[] not null default '{}',
+  verified boolean not null,
+  verification_error text,
+  vector_store text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists data_erasure_audit_user_idx on data_erasure_audit (clerk_user_id, created_at desc);
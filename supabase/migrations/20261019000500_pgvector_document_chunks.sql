@@ -0,0 +1,53 @@
+-- Chunk table and similarity search for the pgvector backend
+-- (src/lib/vector-store/pgvector.ts, vectorStore.backend: pgvector). The
+-- names are the defaults of vectorStore.pgvector.table and .matchFunction in
+-- the config. vector(1536) matches the default embedding model,
+-- text-embedding-3-small; a different model needs a matching dimension.
+
+create extension if not exists vector with schema extensions;
+
+create table if not exists document_chunks (
+  id bigint generated by default as identity primary key,
+  clerk_user_id text not null,
+  document_id text not null,
+  chunk_index integer not null,
+  content text not null,
+  embedding extensions.vector(1536) not null,
+  created_at timestamptz not null default now(),
+  -- upsert() replaces chunks on this key when a document is re-ingested
+  unique (clerk_user_id, document_id, chunk_index)
+);
+
+-- Cosine distance, as used by match_document_chunks
+create index if not exists document_chunks_embedding_idx
+  on document_chunks using hnsw (embedding extensions.vector_cosine_ops);
+
+-- Returns the caller's closest chunks, optionally within one document.
+-- similarity is 1 - cosine distance, so higher is closer.
+create or replace function match_document_chunks(
+  query_embedding extensions.vector(1536),
+  p_user_id text,
+  match_count integer default 10,
+  p_document_id text default null
+)
+returns table (
+  content text,
+  document_id text,
+  chunk_index integer,
+  similarity double precision
+)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select c.content, c.document_id, c.chunk_index, 1 - (c.embedding <=> query_embedding) as similarity
+    from document_chunks c
+   where c.clerk_user_id = p_user_id
+     and (p_document_id is null or c.document_id = p_document_id)
+   order by c.embedding <=> query_embedding
+   limit match_count;
+$$;
+
+-- The server calls this with the service role key only
+revoke all on function match_document_chunks(extensions.vector, text, integer, text) from public, anon, authenticated;
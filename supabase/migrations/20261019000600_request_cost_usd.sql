@@ -0,0 +1,15 @@
+-- Exact request cost written by trackUsage in src/lib/usage.ts. Most requests
+-- cost a fraction of a cent, so the old whole-cent cost_cents column recorded
+-- 0 for nearly all of them. Round when displaying, not when storing.
+
+alter table requests
+  add column if not exists cost_usd numeric(14, 8) not null default 0;
+
+-- Keep what the earlier rows have, to the cent they were recorded at
+update requests
+   set cost_usd = cost_cents / 100.0
+ where cost_usd = 0 and coalesce(cost_cents, 0) <> 0;
+
+-- trackUsage no longer writes it
+alter table requests
+  alter column cost_cents drop not null;
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cached, invalidateUserCache, MemoryCacheBackend, purgeUserCache, setCacheBackend } from '../../src/lib/cache.js';
+import { registry } from '../../src/lib/metrics.js';
+
+// Remembers every key written so tests can look for leftovers
+class RecordingBackend extends MemoryCacheBackend {
+  keys = new Set<string>();
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.keys.add(key);
+    return super.set(key, value, ttlMs);
+  }
+}
+
+let backend: RecordingBackend;
+const options = { ttlMs: 60000 };
+
+beforeEach(() => {
+  backend = new RecordingBackend(100);
+  setCacheBackend(backend);
+});
+
+describe('cached', () => {
+  it('computes once per user and key', async () => {
+    const compute = vi.fn(async () => 'answer');
+
+    expect(await cached('retrieval', 'user_1', ['q'], options, compute)).toBe('answer');
+    expect(await cached('retrieval', 'user_1', ['q'], options, compute)).toBe('answer');
+    await cached('retrieval', 'user_2', ['q'], options, compute);
+    await cached('retrieval', 'user_1', ['other'], options, compute);
+
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips values shouldCache rejects', async () => {
+    const compute = vi.fn(async () => ({ totalResults: 0 }));
+    const skipEmpty = { ...options, shouldCache: (value: { totalResults: number }) => value.totalResults > 0 };
+
+    await cached('retrieval', 'user_1', ['q'], skipEmpty, compute);
+    await cached('retrieval', 'user_1', ['q'], skipEmpty, compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to computing when the backend fails', async () => {
+    setCacheBackend({
+      name: 'broken',
+      get: async () => { throw new Error('down'); },
+      set: async () => { throw new Error('down'); },
+      delete: async () => {},
+      deletePrefix: async () => {}
+    });
+
+    expect(await cached('retrieval', 'user_1', ['q'], options, async () => 'fresh')).toBe('fresh');
+  });
+});
+
+describe('invalidateUserCache', () => {
+  it('makes only that user recompute', async () => {
+    const compute = vi.fn(async () => 'answer');
+    await cached('retrieval', 'user_1', ['q'], options, compute);
+    await cached('retrieval', 'user_2', ['q'], options, compute);
+
+    await invalidateUserCache('user_1');
+    await cached('retrieval', 'user_1', ['q'], options, compute);
+    await cached('retrieval', 'user_2', ['q'], options, compute);
+
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('purgeUserCache', () => {
+  it('deletes the user entries from the backend, not just their generation', async () => {
+    await cached('retrieval', 'user_1', ['q'], options, async () => 'private passage');
+    await cached('llm', 'user_1', ['prompt'], options, async () => 'private answer');
+    await cached('retrieval', 'user_10', ['q'], options, async () => 'someone else');
+
+    await purgeUserCache('user_1');
+
+    const userKeys = Array.from(backend.keys).filter(key => key.startsWith('user:user_1:'));
+    expect(userKeys).toHaveLength(2);
+    for (const key of userKeys) {
+      expect(await backend.get(key)).toBeUndefined();
+    }
+
+    const otherKey = Array.from(backend.keys).find(key => key.startsWith('user:user_10:'))!;
+    expect(await backend.get(otherKey)).toBe(JSON.stringify('someone else'));
+  });
+});
+
+describe('cache metrics', () => {
+  async function metricValue(name: string, labels: Record<string, string> = {}): Promise<number> {
+    const metric = await registry.getSingleMetric(name)!.get();
+    const value = metric.values.find(v => Object.entries(labels).every(([key, label]) => v.labels[key] === label));
+    return value?.value ?? 0;
+  }
+
+  it('counts hits, misses and evictions', async () => {
+    setCacheBackend(new MemoryCacheBackend(2));
+    const hits = await metricValue('cache_operations_total', { namespace: 'metrics', outcome: 'hit' });
+    const misses = await metricValue('cache_operations_total', { namespace: 'metrics', outcome: 'miss' });
+    const evictions = await metricValue('cache_evictions_total');
+
+    await cached('metrics', 'user_1', ['a'], options, async () => 'a');
+    await cached('metrics', 'user_1', ['a'], options, async () => 'a');
+    await cached('metrics', 'user_1', ['b'], options, async () => 'b');
+    await cached('metrics', 'user_1', ['c'], options, async () => 'c');
+
+    expect(await metricValue('cache_operations_total', { namespace: 'metrics', outcome: 'hit' })).toBe(hits + 1);
+    expect(await metricValue('cache_operations_total', { namespace: 'metrics', outcome: 'miss' })).toBe(misses + 3);
+    expect(await metricValue('cache_evictions_total')).toBeGreaterThan(evictions);
+  });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const documents = {
+  deleteDocumentRecord: vi.fn(),
+  deleteAllDocumentRecords: vi.fn(),
+  countDocumentRecords: vi.fn()
+};
+const graph = { deleteGraph: vi.fn(), countGraph: vi.fn() };
+const vectorStore = { name: 'fake', deleteDocument: vi.fn(), deleteTenant: vi.fn(), count: vi.fn() };
+const auditInsert = vi.fn();
+const purgeUserCache = vi.fn();
+
+vi.mock('../../src/lib/documents.js', () => documents);
+vi.mock('../../src/lib/ingestion/graph-extractor.js', () => graph);
+vi.mock('../../src/lib/vector-store/index.js', () => ({ getVectorStore: () => vectorStore }));
+vi.mock('../../src/lib/supabase.js', () => ({ supabase: { from: () => ({ insert: auditInsert }) } }));
+vi.mock('../../src/lib/cache.js', () => ({ purgeUserCache }));
+
+const { eraseAccount, eraseDocument } = await import('../../src/lib/erasure.js');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  documents.deleteDocumentRecord.mockResolvedValue(false);
+  documents.deleteAllDocumentRecords.mockResolvedValue(0);
+  documents.countDocumentRecords.mockResolvedValue(0);
+  graph.deleteGraph.mockResolvedValue({ entities: 0, relationships: 0 });
+  graph.countGraph.mockResolvedValue({ entities: 0, relationships: 0 });
+  vectorStore.deleteDocument.mockResolvedValue(0);
+  vectorStore.deleteTenant.mockResolvedValue(undefined);
+  vectorStore.count.mockResolvedValue(0);
+  auditInsert.mockResolvedValue({ error: null });
+});
+
+describe('eraseDocument', () => {
+  it('clears the graph and vector store even when the document row is gone', async () => {
+    graph.deleteGraph.mockResolvedValue({ entities: 3, relationships: 2 });
+    vectorStore.deleteDocument.mockResolvedValue(4);
+
+    const result = await eraseDocument('user_1', 'doc-1', 'mcp:test');
+
+    expect(graph.deleteGraph).toHaveBeenCalledWith('user_1', 'doc-1');
+    expect(vectorStore.deleteDocument).toHaveBeenCalledWith('user_1', 'doc-1');
+    expect(result).toMatchObject({
+      deleted: { documents: 0, entities: 3, relationships: 2, chunks: 4 },
+      failedStores: [],
+      verified: true,
+      auditRecorded: true
+    });
+  });
+
+  it('still clears the other stores when one fails, and reports it', async () => {
+    vectorStore.deleteDocument.mockRejectedValue(new Error('vector store down'));
+    documents.deleteDocumentRecord.mockResolvedValue(true);
+
+    const result = await eraseDocument('user_1', 'doc-1', 'mcp:test');
+
+    expect(graph.deleteGraph).toHaveBeenCalled();
+    expect(documents.deleteDocumentRecord).toHaveBeenCalledWith('user_1', 'doc-1');
+    expect(result.failedStores).toEqual(['vector_store']);
+    expect(result.verified).toBe(false);
+  });
+
+  it('is not verified while anything is left behind', async () => {
+    vectorStore.count.mockResolvedValue(1);
+
+    const result = await eraseDocument('user_1', 'doc-1', 'mcp:test');
+
+    expect(result.remaining.chunks).toBe(1);
+    expect(result.verified).toBe(false);
+  });
+
+  it('still records an audit when the check after deleting fails', async () => {
+    documents.deleteDocumentRecord.mockResolvedValue(true);
+    graph.countGraph.mockRejectedValue(new Error('connection reset'));
+
+    const result = await eraseDocument('user_1', 'doc-1', 'mcp:test');
+
+    expect(result).toMatchObject({ remaining: null, verified: false, verificationError: 'connection reset', auditRecorded: true });
+    expect(auditInsert).toHaveBeenCalledWith(expect.objectContaining({
+      remaining_counts: null,
+      verified: false,
+      verification_error: 'connection reset'
+    }));
+  });
+
+  it('purges the user cache and audits without any content', async () => {
+    await eraseDocument('user_1', 'doc-1', 'mcp:test');
+
+    expect(purgeUserCache).toHaveBeenCalledWith('user_1');
+    expect(auditInsert).toHaveBeenCalledWith(expect.objectContaining({
+      clerk_user_id: 'user_1',
+      scope: 'document',
+      document_id: 'doc-1',
+      requested_by: 'mcp:test',
+      verified: true
+    }));
+  });
+});
+
+describe('eraseAccount', () => {
+  it('removes the whole vector store tenant and every document', async () => {
+    vectorStore.count.mockResolvedValueOnce(7);
+    documents.deleteAllDocumentRecords.mockResolvedValue(2);
+
+    const result = await eraseAccount('user_1', 'mcp:test');
+
+    expect(vectorStore.deleteTenant).toHaveBeenCalledWith('user_1');
+    expect(graph.deleteGraph).toHaveBeenCalledWith('user_1');
+    expect(result).toMatchObject({ scope: 'account', deleted: { documents: 2, chunks: 7 }, verified: true });
+  });
+});
@@ -0,0 +1,74 @@
+import type { NextFunction, Request, Response } from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { getIdentityProvider } from '../../src/lib/identity/index.js';
+import { LocalIdentityProvider } from '../../src/lib/identity/providers.js';
+import { authMiddleware } from '../../src/lib/middleware.js';
+
+function tokenFor(scopes: string[] = []): string {
+  return (getIdentityProvider() as LocalIdentityProvider).issueToken('user_1', { scopes, clientId: 'test-client' });
+}
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    status: vi.fn((code: number) => { res.statusCode = code; return res; }),
+    set: vi.fn((name: string, value: string) => { res.headers[name] = value; return res; }),
+    json: vi.fn((body: unknown) => { res.body = body; return res; }),
+    end: vi.fn(() => res)
+  };
+  return res;
+}
+
+async function authenticate(body: unknown, token: string | undefined) {
+  const req = { path: '/', method: 'POST', headers: token ? { authorization: `Bearer ${token}` } : {}, body } as unknown as Request;
+  const res = mockResponse();
+  const next = vi.fn() as NextFunction;
+  await authMiddleware(req, res as unknown as Response, next);
+  return { req, res, next };
+}
+
+const toolCall = (id: number, name: string, args?: Record<string, unknown>) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name, ...(args ? { arguments: args } : {}) }
+});
+
+describe('authMiddleware', () => {
+  it('rejects requests without a valid token', async () => {
+    const missing = await authenticate(toolCall(1, 'get_usage'), undefined);
+    const garbage = await authenticate(toolCall(1, 'get_usage'), 'not-a-jwt');
+
+    for (const { res, next } of [missing, garbage]) {
+      expect(res.statusCode).toBe(401);
+      expect(next).not.toHaveBeenCalled();
+    }
+  });
+
+  it('injects the verified user into every tool call of a batch', async () => {
+    const body = [
+      toolCall(1, 'get_usage'),
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      toolCall(3, 'context_finder', { query: 'hi', context: { clerkUserId: 'someone_else' } })
+    ];
+
+    const { req, next } = await authenticate(body, tokenFor());
+
+    expect(next).toHaveBeenCalled();
+    expect(req.auth).toMatchObject({ clientId: 'test-client', extra: { clerkUserId: 'user_1' } });
+    expect(body[0].params.arguments).toEqual({ context: { clerkUserId: 'user_1' } });
+    expect(body[1]).not.toHaveProperty('params');
+    expect(body[2].params.arguments).toEqual({ query: 'hi', context: { clerkUserId: 'user_1' } });
+  });
+
+  it('refuses a tool call outside the token scopes with an insufficient_scope challenge', async () => {
+    const { res, next } = await authenticate([toolCall(1, 'get_usage'), toolCall(2, 'delete_account_data')], tokenFor(['documents:write']));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.headers['WWW-Authenticate']).toContain('error="insufficient_scope", scope="account:delete"');
+    expect(res.body).toMatchObject({ id: 2, error: { code: -32003 } });
+  });
+});
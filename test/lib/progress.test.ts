@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PARTIAL_ANSWER_LOGGER, ProgressReporter, ToolExtra } from '../../src/lib/progress.js';
+
+function extraWith(progressToken?: string | number) {
+  const sendNotification = vi.fn().mockResolvedValue(undefined);
+  const extra = { _meta: progressToken === undefined ? undefined : { progressToken }, sendNotification } as unknown as ToolExtra;
+  return { extra, sendNotification };
+}
+
+describe('ProgressReporter', () => {
+  it('sends nothing when the client gave no progress token', async () => {
+    const { extra, sendNotification } = extraWith();
+    const progress = new ProgressReporter(extra);
+
+    progress.stage('Planning');
+    progress.partial('x'.repeat(500));
+    await progress.done();
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('numbers stage notifications in order', async () => {
+    const { extra, sendNotification } = extraWith('token-1');
+    const progress = new ProgressReporter(extra);
+
+    progress.stage('Planning');
+    progress.stage('Searching');
+    await progress.done();
+
+    expect(sendNotification.mock.calls.map(([notification]) => notification)).toEqual([
+      { method: 'notifications/progress', params: { progressToken: 'token-1', progress: 1, message: 'Planning' } },
+      { method: 'notifications/progress', params: { progressToken: 'token-1', progress: 2, message: 'Searching' } }
+    ]);
+  });
+
+  it('sends answer text as a log message, never in a progress message', async () => {
+    const { extra, sendNotification } = extraWith('token-1');
+    const progress = new ProgressReporter(extra);
+
+    progress.stage('Writing answer');
+    progress.partial('The answer is ');
+    progress.partial('42.');
+    await progress.done();
+
+    const notifications = sendNotification.mock.calls.map(([notification]) => notification);
+    const progressMessages = notifications.filter(n => n.method === 'notifications/progress').map(n => n.params.message);
+    expect(progressMessages).toEqual(['Writing answer']);
+    expect(notifications).toContainEqual({
+      method: 'notifications/message',
+      params: { level: 'info', logger: PARTIAL_ANSWER_LOGGER, data: { progressToken: 'token-1', text: 'The answer is 42.' } }
+    });
+  });
+
+  it('batches partial text until enough has accumulated', async () => {
+    const { extra, sendNotification } = extraWith('token-1');
+    const progress = new ProgressReporter(extra);
+
+    progress.partial('short');
+    expect(sendNotification).not.toHaveBeenCalled();
+
+    progress.partial('x'.repeat(300));
+    await progress.done();
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends nothing once done, e.g. from a pipeline still running after a timeout', async () => {
+    const { extra, sendNotification } = extraWith('token-1');
+    const progress = new ProgressReporter(extra);
+
+    await progress.done();
+    progress.stage('Too late');
+    progress.partial('x'.repeat(500));
+    progress.flush();
+    await progress.done();
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('keeps going when a notification fails to send', async () => {
+    const { extra, sendNotification } = extraWith('token-1');
+    sendNotification.mockRejectedValueOnce(new Error('stream closed'));
+    const progress = new ProgressReporter(extra);
+
+    progress.stage('First');
+    progress.stage('Second');
+    await expect(progress.done()).resolves.toBeUndefined();
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,175 @@
+import { EventEmitter } from 'events';
+import type { NextFunction, Request, Response } from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config/config.js';
+import {
+  ipRateLimitMiddleware,
+  MemoryRateLimitStore,
+  RATE_LIMITED_CODE,
+  setRateLimitStore,
+  userRateLimitMiddleware
+} from '../../src/lib/rate-limit.js';
+
+function mockResponse() {
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    locals: {} as Record<string, unknown>,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    status(code: number) { res.statusCode = code; return res; },
+    set(name: string, value: string) { res.headers[name] = value; return res; },
+    json(body: unknown) { res.body = body; return res; }
+  });
+  return res;
+}
+
+type MockResponse = ReturnType<typeof mockResponse>;
+
+function mockRequest(body: unknown, options: { ip?: string; authorization?: string; clerkUserId?: string; plan?: string } = {}) {
+  return {
+    path: '/',
+    ip: options.ip ?? '10.0.0.1',
+    headers: options.authorization ? { authorization: options.authorization } : {},
+    body,
+    auth: options.clerkUserId
+      ? { token: 't', clientId: 'c', scopes: [], extra: { clerkUserId: options.clerkUserId, claims: options.plan ? { plan: options.plan } : {} } }
+      : undefined
+  } as unknown as Request;
+}
+
+async function run(middleware: typeof ipRateLimitMiddleware, req: Request, res: MockResponse = mockResponse()) {
+  const next = vi.fn() as NextFunction;
+  await middleware(req, res as unknown as Response, next);
+  return { res, passed: (next as any).mock.calls.length > 0 };
+}
+
+const toolsList = { jsonrpc: '2.0', id: 1, method: 'tools/list' };
+const toolCall = (id: number) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'context_finder' } });
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('takes tokens until the bucket is empty and says when to retry', async () => {
+    const store = new MemoryRateLimitStore();
+    const limit = { capacity: 2, refillPerSec: 1 };
+
+    expect((await store.take('k', limit, 2)).allowed).toBe(true);
+    const refused = await store.take('k', limit, 1);
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterMs).toBeGreaterThan(900);
+    expect(refused.retryAfterMs).toBeLessThanOrEqual(1000);
+  });
+
+  it('refunds tokens without going over capacity', async () => {
+    const store = new MemoryRateLimitStore();
+    const limit = { capacity: 2, refillPerSec: 0.001 };
+
+    await store.take('k', limit, 2);
+    await store.refund('k', limit, 5);
+
+    expect((await store.take('k', limit, 2)).allowed).toBe(true);
+    expect((await store.take('k', limit, 1)).allowed).toBe(false);
+  });
+
+  it('hands out at most max leases until one is released', async () => {
+    const store = new MemoryRateLimitStore();
+
+    const first = await store.acquire('k', 2, 60000);
+    expect(await store.acquire('k', 2, 60000)).toBeDefined();
+    expect(await store.acquire('k', 2, 60000)).toBeUndefined();
+
+    await store.release('k', first!);
+    expect(await store.acquire('k', 2, 60000)).toBeDefined();
+  });
+});
+
+describe('ipRateLimitMiddleware', () => {
+  const { burst } = config.rateLimit.ip;
+
+  it('refuses an IP once its burst is used up', async () => {
+    for (let i = 0; i < burst; i++) {
+      expect((await run(ipRateLimitMiddleware, mockRequest(toolsList))).passed).toBe(true);
+    }
+
+    const { res, passed } = await run(ipRateLimitMiddleware, mockRequest(toolsList));
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(Number(res.headers['Retry-After'])).toBeGreaterThanOrEqual(1);
+    expect(res.body).toMatchObject({ id: 1, error: { code: RATE_LIMITED_CODE, data: { limit: 'rate' } } });
+
+    // Other clients are unaffected
+    expect((await run(ipRateLimitMiddleware, mockRequest(toolsList, { ip: '10.0.0.2' }))).passed).toBe(true);
+  });
+
+  it('charges requests carrying a token that never authenticates', async () => {
+    for (let i = 0; i < burst; i++) {
+      await run(ipRateLimitMiddleware, mockRequest(toolsList, { authorization: 'Bearer garbage' }));
+    }
+
+    const { passed } = await run(ipRateLimitMiddleware, mockRequest(toolsList, { authorization: 'Bearer garbage' }));
+    expect(passed).toBe(false);
+  });
+
+  it('gives the token back once the request authenticates', async () => {
+    for (let i = 0; i < burst + 5; i++) {
+      const res = mockResponse();
+      expect((await run(ipRateLimitMiddleware, mockRequest(toolsList), res)).passed).toBe(true);
+      // What authMiddleware does on success
+      expect((await run(userRateLimitMiddleware, mockRequest(toolsList, { clerkUserId: `user_${i}` }), res)).passed).toBe(true);
+    }
+  });
+
+  it('answers a batch with one error per request', async () => {
+    for (let i = 0; i < burst; i++) {
+      await run(ipRateLimitMiddleware, mockRequest(toolsList));
+    }
+
+    const { res } = await run(ipRateLimitMiddleware, mockRequest([toolCall(1), toolCall(2), { jsonrpc: '2.0', method: 'notifications/initialized' }]));
+    expect(res.body).toEqual([
+      expect.objectContaining({ id: 1, error: expect.objectContaining({ code: RATE_LIMITED_CODE }) }),
+      expect.objectContaining({ id: 2, error: expect.objectContaining({ code: RATE_LIMITED_CODE }) })
+    ]);
+  });
+});
+
+describe('userRateLimitMiddleware', () => {
+  const free = config.rateLimit.tiers.free;
+
+  it('counts every message of a batch against the user bucket', async () => {
+    const batch = Array.from({ length: free.burst }, (_, i) => ({ ...toolsList, id: i }));
+
+    expect((await run(userRateLimitMiddleware, mockRequest(batch, { clerkUserId: 'user_1' }))).passed).toBe(true);
+
+    const { res, passed } = await run(userRateLimitMiddleware, mockRequest(toolsList, { clerkUserId: 'user_1' }));
+    expect(passed).toBe(false);
+    expect(res.body).toMatchObject({ error: { data: { limit: 'rate', tier: 'free' } } });
+  });
+
+  it('caps tool calls in flight per tier and frees the slot when the response closes', async () => {
+    const inFlight: MockResponse[] = [];
+    for (let i = 0; i < free.maxConcurrent; i++) {
+      const { res, passed } = await run(userRateLimitMiddleware, mockRequest(toolCall(i), { clerkUserId: 'user_1' }));
+      expect(passed).toBe(true);
+      inFlight.push(res);
+    }
+
+    const refused = await run(userRateLimitMiddleware, mockRequest(toolCall(99), { clerkUserId: 'user_1' }));
+    expect(refused.passed).toBe(false);
+    expect(refused.res.body).toMatchObject({ error: { data: { limit: 'concurrency', maxConcurrent: free.maxConcurrent } } });
+
+    inFlight[0].emit('close');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect((await run(userRateLimitMiddleware, mockRequest(toolCall(100), { clerkUserId: 'user_1' }))).passed).toBe(true);
+  });
+
+  it('applies the tier named in the token', async () => {
+    const pro = config.rateLimit.tiers.pro;
+    const batch = Array.from({ length: pro.burst }, (_, i) => ({ ...toolsList, id: i }));
+
+    expect((await run(userRateLimitMiddleware, mockRequest(batch, { clerkUserId: 'user_2', plan: 'pro' }))).passed).toBe(true);
+    expect((await run(userRateLimitMiddleware, mockRequest(batch, { clerkUserId: 'user_3' }))).passed).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import type { AddressInfo } from 'net';
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import express from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { sleep } from '../../src/lib/concurrency.js';
+import { tracingMiddleware } from '../../src/lib/tracing.js';
+
+const exporter = new InMemorySpanExporter();
+const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+provider.register();
+
+let baseUrl: string;
+let close: () => void;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(tracingMiddleware);
+  app.post('/', (req, res) => { res.json({ ok: true }); });
+  // Never answers, so the client has to give up
+  app.post('/hang', () => {});
+  const listener = app.listen(0);
+  await new Promise(resolve => listener.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  close = () => listener.close();
+});
+
+afterAll(async () => {
+  close();
+  await provider.shutdown();
+});
+
+beforeEach(() => exporter.reset());
+
+async function waitForSpans(count: number) {
+  for (let i = 0; i < 50 && exporter.getFinishedSpans().length < count; i++) {
+    await sleep(10);
+  }
+  return exporter.getFinishedSpans();
+}
+
+describe('tracingMiddleware', () => {
+  it('ends the request span once when the response finishes', async () => {
+    await fetch(`${baseUrl}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    const spans = await waitForSpans(1);
+    await sleep(50);
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(spans[0].name).toBe('HTTP POST tools/list');
+    expect(spans[0].attributes['http.response.status_code']).toBe(200);
+  });
+
+  it('ends the request span when the client aborts', async () => {
+    const controller = new AbortController();
+    const request = fetch(`${baseUrl}/hang`, { method: 'POST', signal: controller.signal }).catch(() => undefined);
+    await sleep(50);
+    controller.abort();
+    await request;
+
+    const spans = await waitForSpans(1);
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes['http.aborted']).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import type { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { ProgressReporter } from '../../src/lib/progress.js';
+import { setupTransportRoutes } from '../../src/lib/transport.js';
+import { sleep } from '../../src/lib/concurrency.js';
+
+// A tool that reports progress while it waits, so two calls overlap
+function createServer(): McpServer {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  server.tool('slow_echo', { text: z.string() }, async ({ text }, extra) => {
+    const progress = new ProgressReporter(extra);
+    progress.stage(`started ${text}`);
+    await sleep(100);
+    progress.stage(`finished ${text}`);
+    await progress.done();
+    return { content: [{ type: 'text', text }] };
+  });
+  return server;
+}
+
+const createServerSpy = vi.fn(createServer);
+let baseUrl: string;
+let close: () => void;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  setupTransportRoutes(app, createServerSpy);
+  const listener = app.listen(0);
+  await new Promise(resolve => listener.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  close = () => listener.close();
+});
+
+afterAll(() => close());
+
+async function callTool(text: string, progressToken: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'slow_echo', arguments: { text }, _meta: { progressToken } }
+    })
+  });
+  return response.text();
+}
+
+describe('setupTransportRoutes', () => {
+  it('serves each request from its own server, so progress reaches only its own caller', async () => {
+    createServerSpy.mockClear();
+
+    const [first, second] = await Promise.all([callTool('one', 'token-one'), callTool('two', 'token-two')]);
+
+    expect(createServerSpy).toHaveBeenCalledTimes(2);
+    expect(createServerSpy.mock.results[0].value).not.toBe(createServerSpy.mock.results[1].value);
+
+    expect(first).toContain('started one');
+    expect(first).toContain('finished one');
+    expect(first).not.toContain('token-two');
+
+    expect(second).toContain('started two');
+    expect(second).toContain('finished two');
+    expect(second).not.toContain('token-one');
+  });
+});
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const rpc = vi.fn();
+const insert = vi.fn();
+const single = vi.fn();
+
+vi.mock('../../src/lib/supabase.js', () => {
+  const query = { select: () => query, eq: () => query, single: () => single(), insert: (row: unknown) => insert(row) };
+  return { supabase: { rpc: (...args: unknown[]) => rpc(...args), from: () => query } };
+});
+
+const {
+  commitUsage,
+  flushUsageWriteQueue,
+  nextUsageResets,
+  refundUsage,
+  reserveUsage,
+  settleUsageWrites,
+  trackUsage
+} = await import('../../src/lib/usage.js');
+
+const reservedRow = { reservation_id: 'res-1', available_requests_today: '4.75', available_requests_month: 99, hero_points: 0 };
+
+beforeEach(async () => {
+  rpc.mockReset();
+  insert.mockReset();
+  single.mockReset();
+  // Leave no queued writes behind for the next test
+  rpc.mockResolvedValue({ data: true, error: null });
+  insert.mockResolvedValue({ error: null });
+  await flushUsageWriteQueue();
+  rpc.mockReset();
+});
+
+describe('reserveUsage', () => {
+  it('reserves the requested units and reports the counters left', async () => {
+    rpc.mockResolvedValueOnce({ data: [reservedRow], error: null });
+
+    const { reservation, usage } = await reserveUsage('user_1', false, 0.25);
+
+    expect(rpc).toHaveBeenCalledWith('reserve_usage', { p_clerk_user_id: 'user_1', p_use_hero_points: false, p_units: 0.25 });
+    expect(reservation).toEqual({ id: 'res-1', clerkUserId: 'user_1', useHeroPoints: false, status: 'reserved' });
+    expect(usage).toEqual({ canProceed: true, availableToday: 4.75, availableMonth: 99, heroPoints: 0 });
+  });
+
+  it('explains a refusal from the counters when nothing could be reserved', async () => {
+    rpc.mockResolvedValueOnce({ data: [], error: null });
+    single.mockResolvedValueOnce({ data: { available_requests_today: 0, available_requests_month: 12, hero_points: 0 }, error: null });
+
+    const { reservation, usage } = await reserveUsage('user_1');
+
+    expect(reservation).toBeUndefined();
+    expect(usage).toMatchObject({ canProceed: false, reason: 'daily_limit', availableMonth: 12 });
+  });
+
+  it('refuses when the reservation call fails', async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'connection refused' } });
+
+    const { reservation, usage } = await reserveUsage('user_1');
+
+    expect(reservation).toBeUndefined();
+    expect(usage).toMatchObject({ canProceed: false, reason: 'unavailable' });
+  });
+});
+
+describe('commitUsage and refundUsage', () => {
+  it('settle a reservation once, in the background', async () => {
+    rpc.mockResolvedValue({ data: true, error: null });
+    const reservation = { id: 'res-1', clerkUserId: 'user_1', useHeroPoints: false, status: 'reserved' as const };
+
+    commitUsage(reservation);
+    // Already settled: a later refund must not hand the request back
+    refundUsage(reservation);
+    await settleUsageWrites();
+
+    expect(reservation.status).toBe('committed');
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('commit_usage', { p_reservation_id: 'res-1' });
+  });
+
+  it('return before a slow write finishes', async () => {
+    let finish: (value: unknown) => void = () => {};
+    rpc.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+    const reservation = { id: 'res-2', clerkUserId: 'user_1', useHeroPoints: false, status: 'reserved' as const };
+
+    refundUsage(reservation);
+    expect(reservation.status).toBe('refunded');
+
+    let settled = false;
+    const settling = settleUsageWrites().then(() => { settled = true; });
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    finish({ data: true, error: null });
+    await settling;
+    expect(rpc).toHaveBeenCalledWith('refund_usage', { p_reservation_id: 'res-2' });
+  });
+
+  it('drop writes the database rejects outright instead of retrying them', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Could not find the function', code: 'PGRST202' } });
+
+    commitUsage({ id: 'res-3', clerkUserId: 'user_1', useHeroPoints: false, status: 'reserved' });
+    await settleUsageWrites();
+    await flushUsageWriteQueue();
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('retry transient failures, then queue them for replay', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'fetch failed' } });
+
+    commitUsage({ id: 'res-4', clerkUserId: 'user_1', useHeroPoints: false, status: 'reserved' });
+    await settleUsageWrites();
+    expect(rpc).toHaveBeenCalledTimes(3);
+
+    rpc.mockResolvedValue({ data: true, error: null });
+    await flushUsageWriteQueue();
+    expect(rpc).toHaveBeenCalledTimes(4);
+
+    // Replayed successfully, so nothing is left to flush
+    await flushUsageWriteQueue();
+    expect(rpc).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('trackUsage', () => {
+  it('records failed requests with their error category', async () => {
+    trackUsage('user_1', 'context_finder', {
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+      cost: 0.0009,
+      processingTime: 300,
+      toolsUsed: ['database_query'],
+      modelsUsed: ['gpt-4o-mini'],
+      isError: true,
+      errorCategory: 'timeout'
+    });
+    await settleUsageWrites();
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      clerk_user_id: 'user_1',
+      endpoint: 'context_finder',
+      cost_usd: 0.0009,
+      models_used: ['gpt-4o-mini'],
+      usage_breakdown: [],
+      is_error: true,
+      error_category: 'timeout'
+    }));
+  });
+});
+
+describe('nextUsageResets', () => {
+  it('uses the configured reset hour and day', () => {
+    const now = new Date('2026-03-14T10:00:00Z');
+
+    expect(nextUsageResets(now, { dailyResetHourUtc: 6, monthlyResetDay: 15 })).toEqual({
+      daily: '2026-03-15T06:00:00.000Z',
+      monthly: '2026-03-15T06:00:00.000Z'
+    });
+    expect(nextUsageResets(now, { dailyResetHourUtc: 12, monthlyResetDay: 1 })).toEqual({
+      daily: '2026-03-14T12:00:00.000Z',
+      monthly: '2026-04-01T12:00:00.000Z'
+    });
+  });
+
+  it('defaults to midnight UTC and the 1st of the month', () => {
+    expect(nextUsageResets(new Date('2026-12-31T23:59:00Z'))).toEqual({
+      daily: '2027-01-01T00:00:00.000Z',
+      monthly: '2027-01-01T00:00:00.000Z'
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it, vi } from 'vitest';
+
+const PAGE_SIZE = 2;
+const stored = Array.from({ length: 5 }, (_, i) => ({ id: String(i + 1), title: `Doc ${i + 1}` }));
+
+vi.mock('../../src/lib/auth.js', () => ({ getAuthenticatedUserId: () => 'user_1' }));
+vi.mock('../../src/lib/documents.js', () => ({
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(async (clerkUserId: string, offset = 0) => ({
+    documents: stored.slice(offset, offset + PAGE_SIZE),
+    nextOffset: offset + PAGE_SIZE < stored.length ? offset + PAGE_SIZE : undefined
+  }))
+}));
+
+const { registerDocumentResources } = await import('../../src/resources/documents.js');
+
+async function withClient<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerDocumentResources(server);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  try {
+    return await fn(client);
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe('document resources', () => {
+  it('pages through every document with the list cursor', async () => {
+    const names = await withClient(async client => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listResources(cursor ? { cursor } : undefined);
+        seen.push(...page.resources.map(resource => resource.name));
+        cursor = page.nextCursor;
+      } while (cursor);
+      return seen;
+    });
+
+    expect(names).toEqual(['Doc 1', 'Doc 2', 'Doc 3', 'Doc 4', 'Doc 5']);
+  });
+
+  it('lists documents with their URI and metadata', async () => {
+    const { resources, nextCursor } = await withClient(client => client.listResources());
+
+    expect(nextCursor).toBeDefined();
+    expect(resources[0]).toMatchObject({ uri: 'nexora://documents/1', name: 'Doc 1', mimeType: 'text/plain' });
+  });
+
+  it('rejects a cursor it did not issue', async () => {
+    await expect(withClient(client => client.listResources({ cursor: 'not-a-cursor' }))).rejects.toThrow(/Invalid cursor/);
+  });
+});
@@ -0,0 +1,47 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema, LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type express from 'express';
+import { describe, expect, it } from 'vitest';
+import { PARTIAL_ANSWER_LOGGER, ProgressReporter } from '../src/lib/progress.js';
+import { createMcpServer } from '../src/server.js';
+
+describe('createMcpServer', () => {
+  it('delivers partial answers to a real client as log notifications', async () => {
+    const server = createMcpServer({ auth: { scopes: [] } } as unknown as express.Request);
+    // Streams like context_finder does, without needing the retrieval pipeline
+    server.tool('stream_answer', async extra => {
+      const progress = new ProgressReporter(extra);
+      progress.stage('Writing answer');
+      progress.partial('The answer ');
+      progress.partial('is 42.');
+      await progress.done();
+      return { content: [{ type: 'text', text: 'The answer is 42.' }] };
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const messages: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      messages.push(notification.params);
+    });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    try {
+      const progressMessages: (string | undefined)[] = [];
+      // Passing onprogress makes the client send a progress token
+      await client.callTool({ name: 'stream_answer', arguments: {} }, CallToolResultSchema, {
+        onprogress: progress => { progressMessages.push(progress.message); }
+      });
+
+      expect(client.getServerCapabilities()?.logging).toBeDefined();
+      expect(progressMessages).toEqual(['Writing answer']);
+      expect(messages).toEqual([
+        { level: 'info', logger: PARTIAL_ANSWER_LOGGER, data: { progressToken: expect.anything(), text: 'The answer is 42.' } }
+      ]);
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import { missingToolScopes, registerTools } from '../../src/tools/index.js';
+
+async function listToolNames(grantedScopes?: string[]): Promise<string[]> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerTools(server, grantedScopes);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  try {
+    const { tools } = await client.listTools();
+    return tools.map(tool => tool.name).sort();
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe('registerTools', () => {
+  it('registers only the read tools for a token without scopes', async () => {
+    expect(await listToolNames()).toEqual(['context_finder', 'get_usage', 'search_documents']);
+  });
+
+  it('adds the write tools for documents:write', async () => {
+    expect(await listToolNames(['documents:write'])).toEqual([
+      'add_document',
+      'context_finder',
+      'delete_document',
+      'get_usage',
+      'search_documents'
+    ]);
+  });
+
+  it('needs every required scope before registering a tool', async () => {
+    expect(await listToolNames(['account:delete'])).not.toContain('delete_account_data');
+    expect(await listToolNames(['documents:write', 'account:delete'])).toContain('delete_account_data');
+  });
+});
+
+describe('missingToolScopes', () => {
+  it('lists the scopes the token lacks', () => {
+    expect(missingToolScopes('delete_account_data', ['documents:write'])).toEqual(['account:delete']);
+    expect(missingToolScopes('add_document', ['documents:write'])).toEqual([]);
+  });
+
+  it('leaves unknown tools to the SDK', () => {
+    expect(missingToolScopes('no_such_tool', [])).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ToolConfig } from '../../../src/tools/internal/base-tool.js';
+import { config } from '../../../src/config/config.js';
+
+const execute = vi.fn();
+
+vi.mock('../../../src/tools/internal/tool-registry.js', () => ({
+  getToolRegistry: () => ({ getTool: (name: string) => (name === 'database_query' ? { name, execute } : undefined) })
+}));
+
+const { Executor } = await import('../../../src/tools/internal/executor.js');
+
+function plan(params: Record<string, unknown>) {
+  return { tools: [{ name: 'database_query', params, priority: 1, reason: 'test' }], strategy: 'parallel' as const };
+}
+
+function toolConfig(): ToolConfig {
+  return execute.mock.calls[0][1];
+}
+
+beforeEach(() => {
+  execute.mockReset();
+  execute.mockResolvedValue({ success: true, data: {} });
+});
+
+describe('Executor planned params', () => {
+  it('passes on only the known params', async () => {
+    await new Executor().executeTools(plan({ query: 'q', topK: 5, sources: ['vector'], clerkUserId: 'someone_else', onProgress: 'x' }), 'user_1');
+
+    expect(execute).toHaveBeenCalledWith('q', expect.anything());
+    expect(toolConfig()).toMatchObject({ topK: 5, sources: ['vector'], clerkUserId: 'user_1', depth: 'medium' });
+    expect(toolConfig().onProgress).toBeUndefined();
+  });
+
+  it('caps limits at the configured maximums', async () => {
+    await new Executor().executeTools(plan({ query: 'q', topK: 10000, maxNodes: 10000, maxFanOut: '10000', depth: 99 }), 'user_1');
+
+    expect(toolConfig()).toMatchObject({
+      topK: config.retrieval.maxTopK,
+      maxNodes: config.retrieval.maxNodes,
+      maxFanOut: config.retrieval.maxFanOut,
+      depth: String(config.retrieval.maxHops)
+    });
+  });
+
+  it('falls back to the defaults for invalid values', async () => {
+    await new Executor().executeTools(plan({ query: 42, topK: -3, sources: ['everything'], depth: 'bottomless' }), 'user_1');
+
+    expect(execute).toHaveBeenCalledWith('', expect.anything());
+    expect(toolConfig()).toMatchObject({ depth: 'medium', focus: [] });
+    expect(toolConfig().topK).toBeUndefined();
+    expect(toolConfig().sources).toBeUndefined();
+  });
+});
+
+describe('Executor retries', () => {
+  it('retries transient failures', async () => {
+    execute.mockResolvedValueOnce({ success: false, data: null, error: '503 Service Unavailable' });
+
+    const [result] = await new Executor().executeTools(plan({ query: 'q' }), 'user_1', { retryBaseDelayMs: 1 });
+
+    expect(result).toMatchObject({ success: true, attempts: 2 });
+  });
+
+  it('does not retry an attempt that timed out', async () => {
+    execute.mockImplementation(() => new Promise(() => {}));
+
+    const [result] = await new Executor().executeTools(plan({ query: 'q' }), 'user_1', { timeoutMs: 20, maxRetries: 2, retryBaseDelayMs: 1 });
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ success: false, attempts: 1, timedOut: true });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GraphEdge, hopsForDepth, KnowledgeGraphStore, traverseKnowledgeGraph } from '../../../src/tools/internal/knowledge-graph.js';
+
+// A → works_for → B → acquired → C → based_in → D
+const edges: GraphEdge[] = [
+  { subject: 'A', predicate: 'works_for', object: 'B', dataId: 'doc-1' },
+  { subject: 'B', predicate: 'acquired', object: 'C', dataId: 'doc-2' },
+  { subject: 'C', predicate: 'based_in', object: 'D', dataId: 'doc-2' }
+];
+
+const store = {
+  findAllRelationships: async (names: string[]) => edges.filter(edge => names.includes(edge.subject) || names.includes(edge.object))
+} as unknown as KnowledgeGraphStore;
+
+describe('hopsForDepth', () => {
+  it('stays at a single hop unless deeper traversal is asked for', () => {
+    expect(hopsForDepth(undefined)).toBe(1);
+    expect(hopsForDepth('medium')).toBe(1);
+    expect(hopsForDepth('shallow')).toBe(1);
+    expect(hopsForDepth('unknown')).toBe(1);
+    expect(hopsForDepth('deep')).toBe(3);
+  });
+
+  it('accepts a hop count', () => {
+    expect(hopsForDepth(2)).toBe(2);
+    expect(hopsForDepth('2')).toBe(2);
+    expect(hopsForDepth(0)).toBe(1);
+  });
+});
+
+describe('traverseKnowledgeGraph', () => {
+  it('returns multi-hop paths up to the hop limit', async () => {
+    const twoHops = await traverseKnowledgeGraph(store, ['A'], { maxHops: 2, maxFanOut: 10, maxNodes: 50 });
+    const threeHops = await traverseKnowledgeGraph(store, ['A'], { maxHops: 3, maxFanOut: 10, maxNodes: 50 });
+
+    expect(twoHops).toHaveLength(1);
+    expect(threeHops).toHaveLength(2);
+  });
+
+  it('follows relationships across documents when deep is asked for', async () => {
+    const results = await traverseKnowledgeGraph(store, ['A'], { maxHops: hopsForDepth('deep'), maxFanOut: 10, maxNodes: 50 });
+
+    expect(results).toHaveLength(2);
+  });
+
+  it('stops once maxNodes entities have been visited', async () => {
+    const results = await traverseKnowledgeGraph(store, ['A'], { maxHops: 3, maxFanOut: 10, maxNodes: 2 });
+
+    expect(results).toEqual([]);
+  });
+});
+
+describe('KnowledgeGraphStore', () => {
+  it('stops calling a batch function once it is known to be missing', async () => {
+    const rpc = vi.fn(async (fn: string, params: Record<string, any>) => fn === 'search_knowledge_entities_batch'
+      ? { data: null, error: { code: 'PGRST202', message: 'function not found' } }
+      : { data: [{ entity_name: params.search_entity_name, entity_type: 'person', data_id: 'doc-1' }], error: null });
+    const graph = new KnowledgeGraphStore({ rpc }, 'user_1');
+
+    const first = await graph.findEntities(['Alice', 'Bob']);
+    const second = await graph.findEntities(['Carol']);
+
+    expect(first.map(entity => entity.searchName)).toEqual(['Alice', 'Bob']);
+    expect(second.map(entity => entity.searchName)).toEqual(['Carol']);
+    expect(rpc.mock.calls.filter(([fn]) => fn === 'search_knowledge_entities_batch')).toHaveLength(1);
+  });
+
+  it('uses the batch function when it is deployed', async () => {
+    const rpc = vi.fn(async () => ({
+      data: [{ search_name: 'Alice', subject: 'Alice', predicate: 'works_for', object: 'Acme', data_id: 'doc-1' }],
+      error: null
+    }));
+    const graph = new KnowledgeGraphStore({ rpc }, 'user_1');
+
+    const edges = await graph.findRelationships([{ name: 'Alice', documentId: 'doc-1' }]);
+
+    expect(edges).toEqual([{ subject: 'Alice', predicate: 'works_for', object: 'Acme', dataId: 'doc-1' }]);
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('search_knowledge_relationships_batch', {
+      entity_names: ['Alice'],
+      user_id: 'user_1',
+      document_ids: ['doc-1']
+    });
+  });
+});
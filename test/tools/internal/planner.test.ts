@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const tools = vi.fn();
+const complete = vi.fn();
+
+vi.mock('../../../src/tools/internal/tool-registry.js', () => ({
+  getToolRegistry: () => ({
+    getAllTools: () => tools(),
+    getTool: (name: string) => tools().find((tool: { name: string }) => tool.name === name),
+    getToolDescriptions: () => tools().map((tool: { name: string }) => tool.name).join('\n')
+  })
+}));
+
+vi.mock('../../../src/lib/llm.js', () => ({
+  getLlmClient: () => ({ complete })
+}));
+
+const { Planner } = await import('../../../src/tools/internal/planner.js');
+const { depthParamSchema } = await import('../../../src/tools/internal/knowledge-graph.js');
+
+beforeEach(() => {
+  tools.mockReset();
+  complete.mockReset();
+});
+
+describe('Planner depth', () => {
+  it('passes the caller\'s depth to the only tool without asking the LLM', async () => {
+    tools.mockReturnValue([{ name: 'database_query' }]);
+
+    const plan = await new Planner().planTools('who does Alice work with?', undefined, 'deep');
+
+    expect(complete).not.toHaveBeenCalled();
+    expect(plan.tools[0].params).toEqual({ query: 'who does Alice work with?', depth: 'deep' });
+  });
+
+  it('offers depth to the LLM and lets the caller\'s depth win', async () => {
+    tools.mockReturnValue([{ name: 'database_query' }, { name: 'web_search' }]);
+    complete.mockResolvedValue({
+      model: 'stub',
+      content: JSON.stringify({ tools: [{ name: 'database_query', params: { query: 'q', depth: 'deep' } }] })
+    });
+
+    const planned = await new Planner().planTools('q');
+    const overridden = await new Planner().planTools('q', undefined, 2);
+
+    expect(complete.mock.calls[0][0].messages[0].content).toContain('"depth"');
+    expect(planned.tools[0].params.depth).toBe('deep');
+    expect(overridden.tools[0].params.depth).toBe(2);
+  });
+});
+
+describe('depthParamSchema', () => {
+  it('accepts named levels and hop counts up to the configured maximum', () => {
+    expect(depthParamSchema.safeParse('deep').success).toBe(true);
+    expect(depthParamSchema.safeParse(2).success).toBe(true);
+    expect(depthParamSchema.safeParse(99).success).toBe(false);
+    expect(depthParamSchema.safeParse('bottomless').success).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const executeTools = vi.fn();
+
+vi.mock('../../src/lib/usage.js', () => ({
+  reserveUsage: vi.fn(async (clerkUserId: string) => ({ reservation: { clerkUserId }, usage: { canProceed: true } })),
+  commitUsage: vi.fn(),
+  refundUsage: vi.fn(),
+  trackUsage: vi.fn()
+}));
+
+vi.mock('../../src/tools/internal/executor.js', () => ({
+  Executor: class {
+    executeTools = executeTools;
+  }
+}));
+
+const { registerSearchDocumentsTool } = await import('../../src/tools/search-documents.js');
+
+// About the size of an ingested chunk, well past the citation excerpt length
+const chunk = 'Alice joined Acme in 2021. '.repeat(45);
+
+async function search(args: Record<string, unknown>) {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerSearchDocumentsTool(server);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  try {
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'search_documents', arguments: args });
+    return { tool: tools[0], result };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+beforeEach(() => {
+  executeTools.mockReset();
+  executeTools.mockResolvedValue([{
+    tool: 'database_query',
+    success: true,
+    data: {
+      results: [{
+        source: 'vector',
+        content: chunk,
+        score: 0.82,
+        metadata: { document_id: 'doc-1', chunk_index: 3 },
+        fusion: { sources: ['vector', 'keyword'], rrfScore: 0.03, duplicates: 1 }
+      }],
+      queryVariations: ['where does Alice work'],
+      totalResults: 1,
+      candidatesBeforeFusion: 4,
+      sources: { keyword: 2, knowledgeGraph: 0, vector: 2 }
+    },
+    executionTime: 5,
+    attempts: 1,
+    startedAt: 0
+  }]);
+});
+
+describe('search_documents', () => {
+  it('returns each chunk in full with its metadata and score, and citations separately', async () => {
+    const { result } = await search({ query: 'where does Alice work', context: { clerkUserId: 'user_1' } });
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as any;
+    expect(structured.results).toEqual([{
+      marker: 1,
+      content: chunk,
+      source: 'vector',
+      sources: ['vector', 'keyword'],
+      score: 0.82,
+      documentId: 'doc-1',
+      resourceUri: expect.stringContaining('doc-1'),
+      metadata: { document_id: 'doc-1', chunk_index: 3 }
+    }]);
+    expect(structured.citations).toHaveLength(1);
+    expect(structured.citations[0].excerpt.length).toBeLessThan(chunk.length);
+    expect((result.content as any)[0].text).toContain(chunk);
+  });
+
+  it('declares an output schema for its structured content', async () => {
+    const { tool } = await search({ query: 'q', context: { clerkUserId: 'user_1' } });
+
+    expect(tool.outputSchema?.properties).toHaveProperty('results');
+    expect(tool.outputSchema?.properties).toHaveProperty('citations');
+  });
+
+  it('passes depth on to database_query', async () => {
+    await search({ query: 'q', depth: 'deep', context: { clerkUserId: 'user_1' } });
+
+    expect(executeTools.mock.calls[0][0].tools[0].params).toMatchObject({ query: 'q', depth: 'deep' });
+  });
+
+  it('reports failures as errors, which need no structured content', async () => {
+    executeTools.mockRejectedValue(new Error('boom'));
+
+    const { result } = await search({ query: 'q', context: { clerkUserId: 'user_1' } });
+
+    expect(result.isError).toBe(true);
+  });
+});
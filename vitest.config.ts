@@ -0,0 +1,24 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // The config is loaded once at import; these satisfy its required settings without real services
+    env: {
+      SUPABASE_URL: 'http://127.0.0.1:9',
+      SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+      PROTECTED_RESOURCE_METADATA: '{"resource":"http://localhost"}',
+      AUTH_PROVIDER: 'local',
+      AUTH_LOCAL_SECRET: 'test-secret',
+      VECTOR_STORE: 'memory',
+      LLM_PROVIDER: 'stub',
+      TRACING_ENABLED: 'false',
+      LOG_LEVEL: 'error',
+    },
+    pool: 'forks',
+    poolOptions: {
+      // supabase-js sets up its realtime client at import, which needs the global WebSocket
+      forks: { execArgv: ['--experimental-websocket'] },
+    },
+  },
+});